@@ -7,15 +7,26 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { Quiz, Attempt } from '@/lib/types';
+import { Quiz, Attempt, Question } from '@/lib/types';
 import { APP_CONTENT } from '@/config/content';
+import { COGNITIVE_LEVELS, DIFFICULTY_LEVELS, QUIZ_MODES } from '@/config/questions';
 import { formatDate, formatPercentage } from '@/lib/utils';
+import { gradeAnswer } from '@/lib/grading';
 import Button from '@/components/ui/Button';
 import Card from '@/components/ui/Card';
 import LoadingSpinner from '@/components/LoadingSpinner';
 
 interface QuizWithAttempts extends Quiz {
   attempts: Attempt[];
+  questions?: Question[];
+}
+
+// Score on the questions of one difficulty or cognitive level, across all attempts
+interface LevelScore {
+  id: string;
+  name: string;
+  correct: number;
+  total: number;
 }
 
 interface AnalyticsData {
@@ -29,6 +40,9 @@ interface AnalyticsData {
   recentActivity: Attempt[];
   topQuizzes: QuizWithAttempts[];
   weakAreas: { type: string; averageScore: number; count: number }[];
+  difficultyScores: LevelScore[];
+  cognitiveScores: LevelScore[];
+  modeScores: { id: string; name: string; attempts: number; averageScore: number }[];
 }
 
 export default function AnalyticsPage() {
@@ -41,7 +55,7 @@ export default function AnalyticsPage() {
   useEffect(() => {
     const fetchAnalytics = async () => {
       try {
-        const response = await fetch('/api/quizzes');
+        const response = await fetch('/api/quizzes?include=questions');
         const data = await response.json();
 
         if (!response.ok || !data.success) {
@@ -155,6 +169,46 @@ export default function AnalyticsPage() {
           .sort((a, b) => a.averageScore - b.averageScore)
           .slice(0, 3);
 
+        // Scores by difficulty and Bloom's level (questions generated before
+        // these were stored have no level and are left out)
+        const difficultyStats: Record<string, { correct: number; total: number }> = {};
+        const cognitiveStats: Record<string, { correct: number; total: number }> = {};
+        quizzes.forEach((quiz) => {
+          quiz.attempts?.forEach((attempt) => {
+            quiz.questions?.forEach((question) => {
+              const credit = gradeAnswer(question, attempt.answers[question.id], quiz.multi_select_scoring || undefined);
+              const tally = (stats: typeof difficultyStats, key: string | null) => {
+                if (!key) return;
+                stats[key] = stats[key] || { correct: 0, total: 0 };
+                stats[key].total++;
+                stats[key].correct += credit;
+              };
+              tally(difficultyStats, question.difficulty);
+              tally(cognitiveStats, question.cognitive_level);
+            });
+          });
+        });
+
+        // Practice and timed exam attempts, apart
+        const modeScores = Object.values(QUIZ_MODES).map((mode) => {
+          const modeAttempts = allAttempts.filter((a) => (a.mode || 'practice') === mode.id);
+          const modeScore = modeAttempts.reduce((sum, a) => sum + (a.score / a.total) * 100, 0);
+          return {
+            id: mode.id,
+            name: mode.name,
+            attempts: modeAttempts.length,
+            averageScore: modeAttempts.length > 0 ? Math.round(modeScore / modeAttempts.length) : 0,
+          };
+        });
+
+        const toLevelScores = (
+          levels: { id: string; name: string }[],
+          stats: typeof difficultyStats
+        ): LevelScore[] =>
+          levels
+            .filter((level) => stats[level.id])
+            .map((level) => ({ id: level.id, name: level.name, ...stats[level.id] }));
+
         setAnalytics({
           totalQuizzes,
           totalAttempts,
@@ -166,6 +220,9 @@ export default function AnalyticsPage() {
           recentActivity,
           topQuizzes,
           weakAreas,
+          difficultyScores: toLevelScores(Object.values(DIFFICULTY_LEVELS), difficultyStats),
+          cognitiveScores: toLevelScores(Object.values(COGNITIVE_LEVELS), cognitiveStats),
+          modeScores,
         });
       } catch (err) {
         console.error('Error loading analytics:', err);
@@ -283,6 +340,65 @@ export default function AnalyticsPage() {
         </Card>
       </section>
 
+      {/* Practice vs Exam (once an exam has been taken) */}
+      {analytics.modeScores.some((mode) => mode.id === 'exam' && mode.attempts > 0) && (
+        <section className="mb-8 animate-slideUp" style={{ animationDelay: '0.12s' }}>
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold mb-4">Practice vs Exam</h2>
+            <div className="grid grid-cols-2 gap-4">
+              {analytics.modeScores.map((mode) => (
+                <div key={mode.id} className="text-center">
+                  <div className="text-3xl font-bold text-primary">
+                    {mode.attempts > 0 ? `${mode.averageScore}%` : '-'}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {mode.id === 'exam' ? '⏱️' : '📝'} {mode.name} average
+                  </div>
+                  <div className="text-xs text-gray-400">{mode.attempts} attempts</div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        </section>
+      )}
+
+      {/* Scores by Difficulty and Cognitive Level */}
+      {(analytics.difficultyScores.length > 0 || analytics.cognitiveScores.length > 0) && (
+        <section className="grid md:grid-cols-2 gap-6 mb-8 animate-slideUp" style={{ animationDelay: '0.15s' }}>
+          {[
+            { title: 'Scores by Difficulty', scores: analytics.difficultyScores },
+            { title: 'Scores by Thinking Level', scores: analytics.cognitiveScores },
+          ].map(({ title, scores }) => (
+            <Card key={title} className="p-6">
+              <h2 className="text-xl font-semibold mb-4">{title}</h2>
+              {scores.length > 0 ? (
+                <div className="space-y-3">
+                  {scores.map((level) => (
+                    <div key={level.id}>
+                      <div className="flex items-center justify-between text-sm mb-1">
+                        <span className="font-medium text-gray-900">{level.name}</span>
+                        <span className="text-gray-600">
+                          {formatPercentage(level.correct, level.total)}
+                          <span className="text-xs text-gray-400"> · {level.total} answers</span>
+                        </span>
+                      </div>
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary rounded-full"
+                          style={{ width: `${(level.correct / level.total) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500">No leveled questions answered yet</p>
+              )}
+            </Card>
+          ))}
+        </section>
+      )}
+
       {/* Recent Activity & Top Quizzes */}
       <section className="grid md:grid-cols-2 gap-6 mb-8 animate-slideUp" style={{ animationDelay: '0.2s' }}>
         {/* Recent Activity */}
@@ -302,6 +418,7 @@ export default function AnalyticsPage() {
                       </div>
                       <div className="text-xs text-gray-500">
                         {formatDate(attempt.completed_at)}
+                        {attempt.mode === 'exam' && ' · ⏱️ Exam'}
                       </div>
                     </div>
                     <div className="text-lg font-bold text-primary">
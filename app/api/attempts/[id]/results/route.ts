@@ -0,0 +1,81 @@
+// =============================================
+// Attempt Results API Route
+// =============================================
+// Get a submitted attempt with its quiz and the full answer key
+// (drafts are refused until submitted)
+// GET /api/attempts/[id]/results
+// The only route that sends correct answers and explanations: the quiz
+// page gets questions without them (see GET /api/quiz/[id])
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAttemptById, getQuiz, getQuestionsByQuizId, isSupabaseConfigured } from '@/lib/supabase';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check if Supabase is configured
+    if (!isSupabaseConfigured) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured. Please add Supabase credentials to .env.local' },
+        { status: 500 }
+      );
+    }
+
+    const attemptId = params.id;
+
+    if (!attemptId) {
+      return NextResponse.json(
+        { success: false, error: 'Attempt ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const attempt = await getAttemptById(attemptId);
+
+    if (!attempt) {
+      return NextResponse.json(
+        { success: false, error: 'Attempt not found' },
+        { status: 404 }
+      );
+    }
+
+    // A draft has not been graded yet, so its answers stay hidden
+    if (attempt.status === 'draft') {
+      return NextResponse.json(
+        { success: false, error: 'Attempt has not been submitted yet' },
+        { status: 403 }
+      );
+    }
+
+    const quiz = await getQuiz(attempt.quiz_id);
+
+    if (!quiz) {
+      return NextResponse.json(
+        { success: false, error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    const questions = await getQuestionsByQuizId(quiz.id);
+
+    return NextResponse.json({
+      success: true,
+      attempt,
+      quiz: {
+        ...quiz,
+        questions,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching attempt results:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch results',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,30 @@
 // =============================================
 // Attempt API Route
 // =============================================
-// Get a specific attempt
+// Get a specific attempt, or autosave a draft attempt
 // GET /api/attempts/[id]
+// PATCH /api/attempts/[id] - { answers, currentIndex, timeSpent, events } (drafts only,
+//   and for exams only until the deadline; an exam timed per question only takes
+//   the open question's answer, and returns where it stands)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getAttemptById, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  getAttemptById,
+  getQuiz,
+  getQuestionsByQuizId,
+  updateDraftAttempt,
+  isSupabaseConfigured,
+} from '@/lib/supabase';
+import { applyPacedAnswers, isPastDeadline } from '@/lib/exam';
+import { sanitizeEvents } from '@/lib/activity';
+import { AttemptEvent } from '@/lib/types';
+
+interface AutosaveRequest {
+  answers: Record<string, string>;
+  currentIndex: number;
+  timeSpent: number;
+  events?: AttemptEvent[];
+}
 
 export async function GET(
   request: NextRequest,
@@ -54,3 +73,98 @@ export async function GET(
     );
   }
 }
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check if Supabase is configured
+    if (!isSupabaseConfigured) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured. Please add Supabase credentials to .env.local' },
+        { status: 500 }
+      );
+    }
+
+    const body: AutosaveRequest = await request.json();
+    const { answers, currentIndex, timeSpent, events } = body;
+
+    if (!answers || typeof answers !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Answers are required' },
+        { status: 400 }
+      );
+    }
+
+    const attempt = await getAttemptById(params.id);
+
+    if (!attempt) {
+      return NextResponse.json(
+        { success: false, error: 'Attempt not found' },
+        { status: 404 }
+      );
+    }
+
+    if (attempt.status !== 'draft') {
+      return NextResponse.json(
+        { success: false, error: 'Attempt was already submitted' },
+        { status: 409 }
+      );
+    }
+
+    if (isPastDeadline(attempt.deadline)) {
+      return NextResponse.json(
+        { success: false, error: 'Time is up: answers can no longer be changed' },
+        { status: 409 }
+      );
+    }
+
+    let progress = {
+      answers,
+      current_index: Math.max(0, Math.floor(Number(currentIndex) || 0)),
+      question_deadline: attempt.question_deadline,
+    };
+
+    // Timed per question: locked questions keep their saved answers
+    if (attempt.question_deadline) {
+      const quiz = await getQuiz(attempt.quiz_id);
+      const questions = await getQuestionsByQuizId(attempt.quiz_id);
+      progress = applyPacedAnswers(
+        attempt,
+        answers,
+        progress.current_index,
+        questions.map((question) => question.id),
+        quiz?.question_time_limit || 0
+      );
+    }
+
+    const saved = await updateDraftAttempt(attempt.id, {
+      ...progress,
+      time_spent: Math.max(attempt.time_spent, Math.floor(Number(timeSpent) || 0)),
+      events: events ? sanitizeEvents(events) : attempt.events,
+    });
+
+    if (!saved) {
+      return NextResponse.json(
+        { success: false, error: 'Attempt was already submitted' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      currentIndex: saved.current_index,
+      questionDeadline: saved.question_deadline,
+    });
+  } catch (error) {
+    console.error('Error saving attempt:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save attempt',
+      },
+      { status: 500 }
+    );
+  }
+}
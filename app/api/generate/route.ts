@@ -5,15 +5,45 @@
 // POST /api/generate
 
 import { NextRequest, NextResponse } from 'next/server';
-import { generateQuestions } from '@/lib/groq';
+import { generateQuizQuestions } from '@/lib/generation';
 import { createQuiz, createQuestions, isSupabaseConfigured } from '@/lib/supabase';
-import { QuestionType } from '@/config/questions';
+import { MIXED_QUESTION_TYPES, resolveBlueprint, blueprintTotal } from '@/lib/blueprint';
+import {
+  QuestionType,
+  Difficulty,
+  CognitiveMix,
+  MultiSelectScoring,
+  QuizMode,
+  ExamTimeLimitUnit,
+  MixedBlueprint,
+  MixedQuestionType,
+  BlueprintUnit,
+  DIFFICULTY_LEVELS,
+  COGNITIVE_LEVELS,
+  MULTI_SELECT_SCORING,
+  QUIZ_MODES,
+  EXAM_TIME_LIMITS,
+  QUESTION_TYPES,
+} from '@/config/questions';
+import { examTimeLimitSeconds, questionTimeLimitSeconds } from '@/lib/exam';
+import { selectContentSegments } from '@/lib/sections';
+import { buildSourceIndex, checkGrounding, isUngrounded } from '@/lib/grounding';
 
 interface GenerateRequest {
   content: string;
   filename: string;
+  filenames?: string[]; // Every uploaded file, for multi-file quizzes
+  title?: string; // Overrides the title taken from the filename (e.g. a folder name)
   questionType: QuestionType;
   questionCount: number;
+  selectedSections?: string[]; // e.g. ["Slide 3", "Slide 4"]; omitted = whole document
+  difficulty?: Difficulty;
+  cognitiveMix?: CognitiveMix; // Percent of questions per Bloom's level
+  multiSelectScoring?: MultiSelectScoring; // How select-all questions are scored
+  quizMode?: QuizMode;
+  examTimeLimit?: { unit: ExamTimeLimitUnit; value: number }; // Required in exam mode
+  // Mixed quizzes: questions per type, as exact counts or percent of questionCount
+  mixedBlueprint?: { unit: BlueprintUnit; shares: MixedBlueprint };
 }
 
 export async function POST(request: NextRequest) {
@@ -28,7 +58,21 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body: GenerateRequest = await request.json();
-    const { content, filename, questionType, questionCount } = body;
+    const {
+      content,
+      filename,
+      filenames,
+      title: requestedTitle,
+      questionType,
+      questionCount,
+      selectedSections,
+      difficulty,
+      cognitiveMix,
+      multiSelectScoring,
+      quizMode,
+      examTimeLimit,
+      mixedBlueprint,
+    } = body;
 
     // Validate required fields
     if (!content || !filename || !questionType || !questionCount) {
@@ -38,44 +82,159 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A blueprint in counts sets the quiz length itself
+    let blueprint: MixedBlueprint | undefined;
+    if (questionType === 'mixed' && mixedBlueprint) {
+      const { unit, shares } = mixedBlueprint;
+      const isValidBlueprint =
+        (unit === 'count' || unit === 'percent') &&
+        Boolean(shares) &&
+        Object.entries(shares).every(
+          ([type, share]) =>
+            MIXED_QUESTION_TYPES.includes(type as MixedQuestionType) &&
+            typeof share === 'number' &&
+            share >= 0
+        );
+      if (!isValidBlueprint) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid question type blueprint' },
+          { status: 400 }
+        );
+      }
+      blueprint = resolveBlueprint(shares, unit, questionCount);
+    }
+    const totalQuestions = blueprint ? blueprintTotal(blueprint) : questionCount;
+
     // Validate question count
-    if (questionCount < 1 || questionCount > 50) {
+    if (totalQuestions < 1 || totalQuestions > 50) {
       return NextResponse.json(
         { success: false, error: 'Question count must be between 1 and 50' },
         { status: 400 }
       );
     }
 
-    // Generate quiz title from filename
-    const title = filename
+    if (difficulty && !(difficulty in DIFFICULTY_LEVELS)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown difficulty "${difficulty}"` },
+        { status: 400 }
+      );
+    }
+
+    if (multiSelectScoring && !(multiSelectScoring in MULTI_SELECT_SCORING)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown scoring mode "${multiSelectScoring}"` },
+        { status: 400 }
+      );
+    }
+
+    if (quizMode && !(quizMode in QUIZ_MODES)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown quiz mode "${quizMode}"` },
+        { status: 400 }
+      );
+    }
+
+    // An exam needs a time limit within the range for its unit
+    if (quizMode === 'exam') {
+      const limit = examTimeLimit && EXAM_TIME_LIMITS[examTimeLimit.unit];
+      if (!limit || typeof examTimeLimit.value !== 'number' || examTimeLimit.value < limit.min || examTimeLimit.value > limit.max) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid exam time limit' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Every share must be a non-negative number, and at least one above zero
+    if (cognitiveMix) {
+      const shares = Object.entries(cognitiveMix);
+      const isValidMix =
+        shares.every(([level, share]) => level in COGNITIVE_LEVELS && typeof share === 'number' && share >= 0) &&
+        shares.some(([, share]) => share > 0);
+      if (!isValidMix) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid cognitive level mix' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Only quiz on the selected slides/pages
+    const quizContent = selectedSections?.length
+      ? selectContentSegments(content, selectedSections)
+      : content;
+
+    if (!quizContent.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'None of the selected slides or pages were found in the document' },
+        { status: 400 }
+      );
+    }
+
+    const sourceFiles = filenames?.length ? filenames : [filename];
+
+    // Generate quiz title from the (first) filename, without its folders
+    const baseTitle = (sourceFiles[0].split('/').pop() || sourceFiles[0])
       .replace(/\.[^/.]+$/, '') // Remove extension
       .replace(/[-_]/g, ' ')    // Replace dashes/underscores with spaces
       .replace(/\s+/g, ' ')     // Normalize spaces
       .trim();
+    const title = requestedTitle?.trim() || (sourceFiles.length > 1
+      ? `${baseTitle} + ${sourceFiles.length - 1} more`
+      : baseTitle);
 
-    // Generate questions using AI
-    console.log(`Generating ${questionCount} ${questionType} questions...`);
-    const generatedQuestions = await generateQuestions(
-      content,
+    // Generate questions using AI, spread across the whole document
+    console.log(`Generating ${totalQuestions} ${questionType} questions...`);
+    const { questions: generatedQuestions, coverage, validation, providers, shortfall } = await generateQuizQuestions(
+      quizContent,
       questionType,
-      questionCount
+      totalQuestions,
+      { sourceFiles, difficulty, cognitiveMix, blueprint }
     );
 
+    if (validation.rejected > 0 || validation.repaired > 0) {
+      console.log(`Validation: ${validation.repaired} repaired, ${validation.rejected} rejected of ${validation.checked}`);
+    }
+
     // Check if we got questions
     if (!generatedQuestions || generatedQuestions.length === 0) {
       return NextResponse.json(
-        { success: false, error: 'Failed to generate questions. Please try again.' },
+        { success: false, error: 'Failed to generate questions. Please try again.', validation },
         { status: 500 }
       );
     }
 
+    // Fewer questions than asked for, even after topping up: say which are missing
+    const missing = (Object.entries(shortfall) as [QuestionType, number][])
+      .map(([type, count]) => `${count} ${QUESTION_TYPES[type].name}`);
+    const warning = missing.length > 0
+      ? `Only ${generatedQuestions.length} of ${totalQuestions} questions could be written from this content ` +
+        `(missing ${missing.join(', ')})`
+      : null;
+    if (warning) console.log(warning);
+
     // Create quiz in database
     const quiz = await createQuiz({
       title: title || 'Quiz',
-      source_filename: filename,
-      source_content: content.substring(0, 5000), // Limit stored content
+      source_filename: sourceFiles.join(', '), // Every contributing file
+      source_content: quizContent.substring(0, 5000), // Limit stored content
       question_type: questionType,
       total_questions: generatedQuestions.length,
+      coverage,
+      // Which AI wrote the questions (more than one if we failed over mid-quiz)
+      ai_provider: providers.map((provider) => provider.id).join(', ') || null,
+      ai_model: providers.map((provider) => provider.model).join(', ') || null,
+      // Any quiz with select-all questions keeps its scoring, mixed ones included
+      multi_select_scoring: generatedQuestions.some((question) => question.type === 'multi_select')
+        ? multiSelectScoring || 'all_or_nothing'
+        : null,
+      mode: quizMode || 'practice',
+      time_limit: quizMode === 'exam' && examTimeLimit
+        ? examTimeLimitSeconds(examTimeLimit.unit, examTimeLimit.value, generatedQuestions.length)
+        : null,
+      question_time_limit: quizMode === 'exam' && examTimeLimit
+        ? questionTimeLimitSeconds(examTimeLimit.unit, examTimeLimit.value)
+        : null,
     });
 
     if (!quiz) {
@@ -85,6 +244,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Check every answer against the source text; weak matches are flagged in results
+    const sourceIndex = buildSourceIndex(quizContent);
+    const grounding = generatedQuestions.map((q) => checkGrounding(q, sourceIndex));
+    const ungroundedCount = grounding.filter((result) => isUngrounded(result.score)).length;
+    if (ungroundedCount > 0) {
+      console.log(`${ungroundedCount} questions could not be matched to the source`);
+    }
+
     // Format questions for database
     const questionsToSave = generatedQuestions.map((q, index) => ({
       quiz_id: quiz.id,
@@ -92,7 +259,17 @@ export async function POST(request: NextRequest) {
       question_text: q.question_text,
       correct_answer: q.correct_answer,
       options: q.options || null,
+      prompts: q.prompts || null,
+      accepted_answers: q.accepted_answers?.length ? q.accepted_answers : null,
       explanation: q.explanation || null,
+      source_file: matchSourceFile(q.source_file, sourceFiles),
+      grounding_score: grounding[index].score,
+      grounding_passage: grounding[index].passage,
+      source_location: grounding[index].location,
+      difficulty: q.difficulty || null,
+      cognitive_level: q.cognitive_level || null,
+      case_group: q.case_group || null,
+      case_stem: q.case_stem || null,
       order_num: index + 1,
     }));
 
@@ -105,6 +282,13 @@ export async function POST(request: NextRequest) {
       quizId: quiz.id,
       title: quiz.title,
       questionCount: generatedQuestions.length,
+      coverage,
+      validation, // What was fixed or rejected before saving
+      ungroundedCount, // Questions whose answer could not be found in the source
+      shortfall, // Questions asked for but not written, by type
+      warning,
+      aiProvider: quiz.ai_provider,
+      aiModel: quiz.ai_model,
     });
   } catch (error) {
     console.error('Generate error:', error);
@@ -117,3 +301,15 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Match the file name the AI gave back to one of the uploaded files
+ * Single-file quizzes always come from that file
+ */
+function matchSourceFile(reported: string | undefined, sourceFiles: string[]): string | null {
+  if (sourceFiles.length === 1) return sourceFiles[0];
+  if (!reported) return null;
+
+  const name = reported.trim().toLowerCase();
+  return sourceFiles.find((file) => file.toLowerCase() === name) || null;
+}
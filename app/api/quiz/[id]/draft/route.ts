@@ -0,0 +1,145 @@
+// =============================================
+// Draft Attempt API Route
+// =============================================
+// A quiz in progress, saved on the server so it survives a refresh
+// GET /api/quiz/[id]/draft - the draft to resume, or null
+// POST /api/quiz/[id]/draft - start a new draft (replaces an old practice
+// draft; an exam in progress is refused, so its clock cannot be reset and its
+// answers cannot be seen before it is finished)
+// Answers are autosaved with PATCH /api/attempts/[id] and graded by the submit route
+// Exam drafts get a deadline (and one for the open question when timed per
+// question); one found after its deadline is submitted as it was saved, and
+// its id returned as expiredAttemptId
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getQuiz,
+  getQuestionsByQuizId,
+  getDraftAttempt,
+  deleteDraftAttempts,
+  createAttempt,
+  isSupabaseConfigured,
+} from '@/lib/supabase';
+import { submitAttempt } from '@/lib/attempts';
+import { examDeadline, isPastDeadline } from '@/lib/exam';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check if Supabase is configured
+    if (!isSupabaseConfigured) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured. Please add Supabase credentials to .env.local' },
+        { status: 500 }
+      );
+    }
+
+    const draft = await getDraftAttempt(params.id);
+
+    // Time ran out while the quiz was closed
+    if (draft && isPastDeadline(draft.deadline)) {
+      const quiz = await getQuiz(params.id);
+      const questions = await getQuestionsByQuizId(params.id);
+      const { attempt } = quiz
+        ? await submitAttempt(quiz, questions, draft.answers, draft.events, draft.time_spent, draft)
+        : { attempt: null };
+
+      return NextResponse.json({
+        success: true,
+        draft: null,
+        expiredAttemptId: attempt?.id || null,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      draft,
+    });
+  } catch (error) {
+    console.error('Error fetching draft attempt:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch draft',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check if Supabase is configured
+    if (!isSupabaseConfigured) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured. Please add Supabase credentials to .env.local' },
+        { status: 500 }
+      );
+    }
+
+    const quizId = params.id;
+    const quiz = await getQuiz(quizId);
+    const questions = await getQuestionsByQuizId(quizId);
+
+    if (!quiz || questions.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    // Starting over drops an old practice draft; an exam must run its course
+    const previous = await getDraftAttempt(quizId);
+    if (previous?.mode === 'exam') {
+      if (!isPastDeadline(previous.deadline)) {
+        return NextResponse.json(
+          { success: false, error: 'An exam is in progress: resume it and submit it before starting over' },
+          { status: 409 }
+        );
+      }
+      // Its time ran out: submitted as it was saved, never dropped
+      await submitAttempt(quiz, questions, previous.answers, previous.events, previous.time_spent, previous);
+    }
+    await deleteDraftAttempts(quizId);
+
+    const draft = await createAttempt({
+      quiz_id: quizId,
+      score: 0,
+      total: questions.length,
+      answers: {},
+      time_spent: 0,
+      status: 'draft',
+      current_index: 0,
+      mode: quiz.mode || 'practice',
+      deadline: quiz.mode === 'exam' && quiz.time_limit ? examDeadline(quiz.time_limit) : null,
+      question_deadline: quiz.mode === 'exam' && quiz.question_time_limit ? examDeadline(quiz.question_time_limit) : null,
+      events: [],
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to start attempt' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      draft,
+    });
+  } catch (error) {
+    console.error('Error starting draft attempt:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start attempt',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,14 @@
 // =============================================
 // Quiz API Route
 // =============================================
-// Get a specific quiz with its questions
+// Get a specific quiz with its questions, for taking it
 // GET /api/quiz/[id]
+// Answers, explanations and source passages are left out: they are only
+// sent after submitting, by GET /api/attempts/[id]/results
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getQuiz, getQuestionsByQuizId, isSupabaseConfigured } from '@/lib/supabase';
+import { getQuiz, getQuestionsByQuizId, isSupabaseConfigured, Question } from '@/lib/supabase';
+import { AnswerKeyField } from '@/lib/types';
 
 export async function GET(
   request: NextRequest,
@@ -46,7 +49,7 @@ export async function GET(
       success: true,
       quiz: {
         ...quiz,
-        questions,
+        questions: questions.map(toTakingQuestion),
       },
     });
   } catch (error) {
@@ -60,3 +63,19 @@ export async function GET(
     );
   }
 }
+
+/**
+ * A question without anything that gives its answer away
+ */
+function toTakingQuestion(question: Question): Omit<Question, AnswerKeyField> {
+  const {
+    correct_answer,
+    accepted_answers,
+    explanation,
+    grounding_score,
+    grounding_passage,
+    source_location,
+    ...shown
+  } = question;
+  return shown;
+}
@@ -3,13 +3,21 @@
 // =============================================
 // Submit quiz answers and calculate score
 // POST /api/quiz/[id]/submit
+// With an attemptId the draft attempt is graded and marked submitted;
+// without one a new attempt is saved (practice quizzes only)
+// Exams submitted after their deadline are graded on the answers saved in time
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getQuiz, getQuestionsByQuizId, createAttempt, isSupabaseConfigured } from '@/lib/supabase';
+import { getQuiz, getQuestionsByQuizId, getAttemptById, isSupabaseConfigured } from '@/lib/supabase';
+import { submitAttempt } from '@/lib/attempts';
+import { sanitizeEvents } from '@/lib/activity';
+import { AttemptEvent } from '@/lib/types';
 
 interface SubmitRequest {
   answers: Record<string, string>;
   timeSpent: number;
+  attemptId?: string; // The draft started with POST /api/quiz/[id]/draft
+  events?: AttemptEvent[]; // What happened on each question (see lib/activity.ts)
 }
 
 export async function POST(
@@ -27,7 +35,7 @@ export async function POST(
 
     const quizId = params.id;
     const body: SubmitRequest = await request.json();
-    const { answers, timeSpent } = body;
+    const { answers, timeSpent, attemptId, events } = body;
 
     if (!quizId) {
       return NextResponse.json(
@@ -54,32 +62,33 @@ export async function POST(
       );
     }
 
-    // Calculate score
-    let score = 0;
-    const correctAnswers: Record<string, string> = {};
-
-    for (const question of questions) {
-      const userAnswer = answers[question.id]?.toLowerCase().trim() || '';
-      const correctAnswer = question.correct_answer.toLowerCase().trim();
-      
-      correctAnswers[question.id] = question.correct_answer;
-
-      // Check if answer is correct
-      if (userAnswer === correctAnswer) {
-        score++;
+    // Finish the draft the quiz page started (exams always have one,
+    // so the server knows when they started)
+    let draft = null;
+    if (attemptId) {
+      draft = await getAttemptById(attemptId);
+      if (!draft || draft.quiz_id !== quizId) {
+        return NextResponse.json(
+          { success: false, error: 'Attempt not found' },
+          { status: 404 }
+        );
       }
+      if (draft.status !== 'draft') {
+        return NextResponse.json(
+          { success: false, error: 'This attempt was already submitted' },
+          { status: 409 }
+        );
+      }
+    } else if (quiz.mode === 'exam') {
+      return NextResponse.json(
+        { success: false, error: 'Exam attempts must be started before they are submitted' },
+        { status: 400 }
+      );
     }
 
-    const total = questions.length;
-
-    // Create attempt record
-    const attempt = await createAttempt({
-      quiz_id: quizId,
-      score,
-      total,
-      answers,
-      time_spent: timeSpent || 0,
-    });
+    // Calculate score (matching, ordering and partially scored select-all
+    // questions can earn part of a point) and save the attempt
+    const { attempt, timedOut } = await submitAttempt(quiz, questions, answers, sanitizeEvents(events), timeSpent, draft);
 
     if (!attempt) {
       return NextResponse.json(
@@ -88,14 +97,15 @@ export async function POST(
       );
     }
 
-    // Return results
+    // Return the score only: the answer key comes from
+    // GET /api/attempts/[id]/results
     return NextResponse.json({
       success: true,
       attemptId: attempt.id,
-      score,
-      total,
-      percentage: Math.round((score / total) * 100),
-      correctAnswers,
+      score: attempt.score,
+      total: attempt.total,
+      percentage: Math.round((attempt.score / attempt.total) * 100),
+      timedOut,
     });
   } catch (error) {
     console.error('Submit error:', error);
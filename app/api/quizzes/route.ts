@@ -3,16 +3,18 @@
 // =============================================
 // Get all quizzes with their attempts
 // GET /api/quizzes
+// GET /api/quizzes?include=questions - also each quiz's questions (for analytics),
+//   only for quizzes with a submitted attempt so unanswered quizzes keep their answers hidden
 
-import { NextResponse } from 'next/server';
-import { getAllQuizzes, getAttemptsByQuizId, isSupabaseConfigured } from '@/lib/supabase';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllQuizzes, getAttemptsByQuizId, getQuestionsByQuizIds, isSupabaseConfigured } from '@/lib/supabase';
 
 // Force dynamic rendering to prevent caching in production
 // This ensures recent quizzes always appear in history
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     // Check if Supabase is configured
     if (!isSupabaseConfigured) {
@@ -33,6 +35,19 @@ export async function GET() {
       })
     );
 
+    if (request.nextUrl.searchParams.get('include') === 'questions') {
+      const questions = await getQuestionsByQuizIds(quizzes.map((quiz) => quiz.id));
+      return NextResponse.json({
+        success: true,
+        quizzes: quizzesWithAttempts.map((quiz) => ({
+          ...quiz,
+          questions: quiz.attempts.length > 0
+            ? questions.filter((question) => question.quiz_id === quiz.id)
+            : [],
+        })),
+      });
+    }
+
     return NextResponse.json({
       success: true,
       quizzes: quizzesWithAttempts,
@@ -2,49 +2,106 @@
 // Upload API Route
 // =============================================
 // Handles file upload and parsing
+// Several files can be uploaded at once and are merged into one content bundle
+// A .zip archive is unpacked and every supported file inside is parsed
 // POST /api/upload
 
 import { NextRequest, NextResponse } from 'next/server';
-import { parseFileBuffer } from '@/lib/parsers';
+import { parseFileBuffer, mergeParseResults, ParsedFile } from '@/lib/parsers';
+import { parseZipBuffer, isZipFile, getFolderPath, SkippedEntry } from '@/lib/parsers/zip';
+import { OCR_TIME_BUDGET_MS } from '@/lib/parsers/ocr';
+import { DocumentManifestEntry } from '@/lib/types';
+
+// Most files that can be combined into one quiz
+const MAX_FILES = 10;
+
+// A whole course folder can be bigger than a single handout
+const MAX_ZIP_SIZE = 200 * 1024 * 1024; // 200MB
 
 export async function POST(request: NextRequest) {
   try {
-    // Get the form data
+    // Get the form data ("files" may repeat; "file" is the single-file form)
     const formData = await request.formData();
-    const file = formData.get('file') as File | null;
+    const files = formData.getAll('files').filter((f): f is File => f instanceof File);
+    const singleFile = formData.get('file');
+    if (files.length === 0 && singleFile instanceof File) {
+      files.push(singleFile);
+    }
 
-    // Validate file exists
-    if (!file) {
+    // Validate files exist
+    if (files.length === 0) {
       return NextResponse.json(
         { success: false, error: 'No file provided' },
         { status: 400 }
       );
     }
 
-    // Validate file size (max 50MB)
+    if (files.length > MAX_FILES) {
+      return NextResponse.json(
+        { success: false, error: `Too many files. You can combine up to ${MAX_FILES} files.` },
+        { status: 400 }
+      );
+    }
+
+    // Validate file size (max 50MB each, 200MB for a ZIP archive)
     const maxSize = 50 * 1024 * 1024; // 50MB
-    if (file.size > maxSize) {
+    const tooLarge = files.find((file) => file.size > (isZipFile(file.name) ? MAX_ZIP_SIZE : maxSize));
+    if (tooLarge) {
       return NextResponse.json(
-        { success: false, error: 'File too large. Maximum size is 50MB.' },
+        {
+          success: false,
+          error: `${tooLarge.name} is too large. Maximum size is ${isZipFile(tooLarge.name) ? '200MB' : '50MB'}.`,
+        },
         { status: 400 }
       );
     }
 
-    // Convert file to buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    // Parse all files in parallel; a ZIP archive expands into one document per entry
+    // OCR in all of them shares one time budget, so the upload finishes in time
+    const skipped: SkippedEntry[] = [];
+    const options = { ocrDeadline: Date.now() + OCR_TIME_BUDGET_MS };
+    const uploads = await Promise.all(
+      files.map(async (file): Promise<{ documents: ParsedFile[]; error?: string }> => {
+        const buffer = Buffer.from(await file.arrayBuffer());
+
+        if (isZipFile(file.name)) {
+          const zipResult = await parseZipBuffer(buffer, options);
+          skipped.push(...zipResult.skipped);
+          return { documents: zipResult.documents, error: zipResult.error };
+        }
 
-    // Parse the file
-    const result = await parseFileBuffer(buffer, file.name);
+        const result = await parseFileBuffer(buffer, file.name, options);
+        return result.success
+          ? { documents: [{ filename: file.name, result }] }
+          : { documents: [], error: result.error || 'Failed to parse file' };
+      })
+    );
 
-    // Check if parsing was successful
-    if (!result.success) {
+    // Check if parsing was successful (name the file that failed)
+    const failedIndex = uploads.findIndex((upload) => upload.error);
+    if (failedIndex !== -1) {
+      const error = uploads[failedIndex].error;
       return NextResponse.json(
-        { success: false, error: result.error || 'Failed to parse file' },
+        { success: false, error: files.length > 1 ? `${files[failedIndex].name}: ${error}` : error },
         { status: 400 }
       );
     }
 
+    // Every document needs a unique name to label its part of the content
+    const documents = uploads.flatMap((upload) => upload.documents);
+    const filenames = uniqueFilenames(documents.map((doc) => doc.filename));
+    const parsed = documents.map((doc, index) => ({ ...doc, filename: filenames[index] }));
+
+    const result = mergeParseResults(parsed);
+
+    // Manifest of parsed documents with their folder paths (for ZIP imports)
+    const manifest: DocumentManifestEntry[] = parsed.map(({ filename, result: docResult }) => ({
+      path: filename,
+      folder: getFolderPath(filename),
+      slideCount: docResult.metadata?.slideCount,
+      pageCount: docResult.metadata?.pageCount,
+    }));
+
     // Check if content is too short
     if (result.content.length < 50) {
       return NextResponse.json(
@@ -56,10 +113,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Return the parsed content
+    // Return the parsed content and its structured sections
     return NextResponse.json({
       success: true,
+      filenames,
+      manifest,
+      skipped,
       content: result.content,
+      sections: result.sections || [],
       metadata: result.metadata,
     });
   } catch (error) {
@@ -79,3 +140,20 @@ export async function POST(request: NextRequest) {
 // =============================================
 // Allow large file uploads (50MB max)
 export const maxDuration = 60; // 60 seconds timeout for processing large files
+
+/**
+ * Make file names unique so each one can label its part of the content
+ * e.g. two "notes.pdf" become "notes.pdf" and "notes (2).pdf"
+ */
+function uniqueFilenames(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.map((name) => {
+    let unique = name;
+    for (let n = 2; seen.has(unique); n++) {
+      const dot = name.lastIndexOf('.');
+      unique = dot > 0 ? `${name.slice(0, dot)} (${n})${name.slice(dot)}` : `${name} (${n})`;
+    }
+    seen.add(unique);
+    return unique;
+  });
+}
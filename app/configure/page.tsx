@@ -5,23 +5,64 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
-import { QUESTION_TYPES, QUIZ_LENGTH_OPTIONS, QuestionType } from '@/config/questions';
+import {
+  QUESTION_TYPES,
+  QUIZ_LENGTH_OPTIONS,
+  QuestionType,
+  Difficulty,
+  DIFFICULTY_LEVELS,
+  COGNITIVE_LEVELS,
+  COGNITIVE_MIX_PRESETS,
+  CognitiveLevel,
+  MultiSelectScoring,
+  MULTI_SELECT_SCORING,
+  QuizMode,
+  QUIZ_MODES,
+  ExamTimeLimitUnit,
+  EXAM_TIME_LIMITS,
+  MixedBlueprint,
+  BlueprintUnit,
+  DEFAULT_MIXED_BLUEPRINT,
+  DEFAULT_QUIZ_SETTINGS,
+} from '@/config/questions';
+import { MIXED_QUESTION_TYPES, resolveBlueprint, blueprintTotal } from '@/lib/blueprint';
+import { examTimeLimitSeconds } from '@/lib/exam';
+import { formatDuration } from '@/lib/utils';
 import { APP_CONTENT } from '@/config/content';
+import { SectionOutline, DocumentManifestEntry } from '@/lib/types';
+import { splitContentSegments, segmentUnit } from '@/lib/sections';
 import QuizTypeCard from '@/components/QuizTypeCard';
+import SectionPicker from '@/components/SectionPicker';
 import Button from '@/components/ui/Button';
 import LoadingSpinner from '@/components/LoadingSpinner';
 
 interface UploadedData {
   filename: string;
+  filenames?: string[];
+  manifest?: DocumentManifestEntry[];
+  skipped?: { path: string; reason: string }[];
   content: string;
+  sections?: SectionOutline[]; // Titles only: the text is in content
   metadata?: {
     slideCount?: number;
     pageCount?: number;
+    fileCount?: number;
+    ocrSkippedCount?: number;
   };
 }
 
+// How a multi-file upload is split into quizzes
+type QuizLayout = 'combined' | 'per_file' | 'per_folder';
+
+// One quiz to generate when the upload is split per file or per folder
+interface QuizGroup {
+  title?: string; // Folder name; per-file quizzes are named after the file
+  filenames: string[];
+  keys: string[]; // Segment keys that belong to this quiz
+}
+
 export default function ConfigurePage() {
   const router = useRouter();
   
@@ -29,7 +70,21 @@ export default function ConfigurePage() {
   const [uploadedData, setUploadedData] = useState<UploadedData | null>(null);
   const [selectedType, setSelectedType] = useState<QuestionType>('multiple_choice');
   const [questionCount, setQuestionCount] = useState(10);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_QUIZ_SETTINGS.difficulty);
+  const [mixPresetId, setMixPresetId] = useState('board');
+  const [blueprintUnit, setBlueprintUnit] = useState<BlueprintUnit>('percent');
+  const [blueprintShares, setBlueprintShares] = useState<MixedBlueprint>(DEFAULT_MIXED_BLUEPRINT);
+  const [multiSelectScoring, setMultiSelectScoring] = useState<MultiSelectScoring>(
+    DEFAULT_QUIZ_SETTINGS.multiSelectScoring
+  );
+  const [quizMode, setQuizMode] = useState<QuizMode>(DEFAULT_QUIZ_SETTINGS.quizMode);
+  const [examTimeUnit, setExamTimeUnit] = useState<ExamTimeLimitUnit>(DEFAULT_QUIZ_SETTINGS.examTimeLimitUnit);
+  const [examTimeValue, setExamTimeValue] = useState(EXAM_TIME_LIMITS[DEFAULT_QUIZ_SETTINGS.examTimeLimitUnit].default);
+  const [selectedSections, setSelectedSections] = useState<string[]>([]);
+  const [quizLayout, setQuizLayout] = useState<QuizLayout>('combined');
   const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [shortNotice, setShortNotice] = useState<{ message: string; href: string } | null>(null); // Fewer questions than asked for
   const [error, setError] = useState<string | null>(null);
 
   // Load uploaded content from sessionStorage
@@ -48,44 +103,205 @@ export default function ConfigurePage() {
     }
   }, [router]);
 
+  // Slides/pages found in the content (empty for documents without markers)
+  const segments = useMemo(
+    () => (uploadedData ? splitContentSegments(uploadedData.content) : []),
+    [uploadedData]
+  );
+
+  // Start with every slide/page selected
+  useEffect(() => {
+    setSelectedSections(segments.map((s) => s.key));
+  }, [segments]);
+
+  const isPartialSelection = segments.length > 0 && selectedSections.length < segments.length;
+
+  const cognitiveMix = (COGNITIVE_MIX_PRESETS.find((preset) => preset.id === mixPresetId) || COGNITIVE_MIX_PRESETS[1]).mix;
+  const describeMix = Object.values(COGNITIVE_LEVELS)
+    .filter((level) => cognitiveMix[level.id] > 0)
+    .map((level) => `${level.name} ${cognitiveMix[level.id]}%`)
+    .join(' · ');
+
+  // Mixed quizzes: exact questions per type; in counts, the blueprint sets the quiz length
+  const isMixed = selectedType === 'mixed';
+  const blueprint = resolveBlueprint(blueprintShares, blueprintUnit, questionCount);
+  const totalQuestions = isMixed && blueprintUnit === 'count' ? blueprintTotal(blueprint) : questionCount;
+  const sharesTotal = blueprintTotal(blueprintShares);
+  const hasMultiSelect = selectedType === 'multi_select' || (isMixed && (blueprint.multi_select || 0) > 0);
+  const describeBlueprint = MIXED_QUESTION_TYPES
+    .filter((type) => blueprint[type])
+    .map((type) => `${blueprint[type]} ${QUESTION_TYPES[type].name}`)
+    .join(' · ');
+
+  // Switching units keeps the same mix
+  const handleBlueprintUnit = (unit: BlueprintUnit) => {
+    if (unit === blueprintUnit) return;
+    if (unit === 'count') {
+      setQuestionCount(blueprintTotal(blueprint) || questionCount);
+      setBlueprintShares(blueprint);
+    } else {
+      setBlueprintShares(resolveBlueprint(blueprintShares, 'percent', 100));
+    }
+    setBlueprintUnit(unit);
+  };
+
+  // Exams: the time for the whole quiz (time per question adds up to it)
+  const examLimit = EXAM_TIME_LIMITS[examTimeUnit];
+  const isExam = quizMode === 'exam';
+  const isValidExamTime = examTimeValue >= examLimit.min && examTimeValue <= examLimit.max;
+  const examSeconds = examTimeLimitSeconds(examTimeUnit, examTimeValue, totalQuestions);
+
+  const handleExamTimeUnit = (unit: ExamTimeLimitUnit) => {
+    setExamTimeUnit(unit);
+    setExamTimeValue(EXAM_TIME_LIMITS[unit].default);
+  };
+
+  const manifest = useMemo(() => uploadedData?.manifest || [], [uploadedData]);
+  const folderCount = new Set(manifest.map((entry) => entry.folder)).size;
+
+  // Group the selected slides/pages into one quiz per file or per folder
+  const quizGroups = useMemo(() => {
+    if (quizLayout === 'combined' || manifest.length < 2) return [];
+
+    const groups = new Map<string, QuizGroup>();
+    for (const entry of manifest) {
+      const keys = segments
+        .filter((s) => s.file === entry.path && selectedSections.includes(s.key))
+        .map((s) => s.key);
+      if (keys.length === 0) continue;
+
+      const groupKey = quizLayout === 'per_file' ? entry.path : entry.folder;
+      const group = groups.get(groupKey) || {
+        title: quizLayout === 'per_folder' ? entry.folder || 'Top level' : undefined,
+        filenames: [],
+        keys: [],
+      };
+      group.filenames.push(entry.path);
+      group.keys.push(...keys);
+      groups.set(groupKey, group);
+    }
+    return Array.from(groups.values());
+  }, [quizLayout, manifest, segments, selectedSections]);
+
+  // Call the generate API for one quiz (with a warning if it came out short)
+  const requestQuiz = async (
+    data: UploadedData,
+    quiz: { filenames?: string[]; title?: string; selectedSections?: string[] }
+  ): Promise<{ quizId: string; warning: string | null }> => {
+    const response = await fetch('/api/generate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        content: data.content,
+        filename: data.filename,
+        questionType: selectedType,
+        questionCount: totalQuestions,
+        mixedBlueprint: isMixed ? { unit: blueprintUnit, shares: blueprintShares } : undefined,
+        difficulty,
+        cognitiveMix,
+        multiSelectScoring: hasMultiSelect ? multiSelectScoring : undefined,
+        quizMode,
+        examTimeLimit: quizMode === 'exam' ? { unit: examTimeUnit, value: examTimeValue } : undefined,
+        ...quiz,
+      }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to generate quiz');
+    }
+    return { quizId: result.quizId, warning: result.warning || null };
+  };
+
+  // Generate one quiz per file or folder, one after another
+  const generateSeparateQuizzes = async (data: UploadedData) => {
+    const failures: string[] = [];
+    const warnings: string[] = [];
+
+    for (let i = 0; i < quizGroups.length; i++) {
+      const group = quizGroups[i];
+      setProgress(`Creating quiz ${i + 1} of ${quizGroups.length}...`);
+      try {
+        const { warning } = await requestQuiz(data, {
+          filenames: group.filenames,
+          title: group.title,
+          selectedSections: group.keys,
+        });
+        if (warning) warnings.push(`${group.title || group.filenames[0]}: ${warning}`);
+      } catch (err) {
+        console.error('Generate error:', err);
+        failures.push(group.title || group.filenames[0]);
+      }
+    }
+
+    if (failures.length === quizGroups.length) {
+      throw new Error('Failed to generate the quizzes. Please try again.');
+    }
+
+    if (failures.length > 0) {
+      // Keep the upload so the user can retry; the others are already in history
+      setError(
+        `Created ${quizGroups.length - failures.length} of ${quizGroups.length} quizzes. ` +
+        `Failed: ${failures.join(', ')}`
+      );
+      return;
+    }
+
+    sessionStorage.removeItem('uploadedContent');
+    if (warnings.length > 0) {
+      setShortNotice({ message: warnings.join('. '), href: '/history' });
+      return;
+    }
+    router.push('/history');
+  };
+
   // Handle quiz generation
   const handleGenerate = async () => {
     if (!uploadedData) return;
 
+    if (segments.length > 0 && selectedSections.length === 0) {
+      setError('Select at least one slide or page to quiz on');
+      return;
+    }
+
+    if (isExam && !isValidExamTime) {
+      setError(`Set an exam time of ${examLimit.min}-${examLimit.max} ${examLimit.unitLabel}`);
+      return;
+    }
+
     setIsGenerating(true);
     setError(null);
 
     try {
-      // Call the generate API
-      const response = await fetch('/api/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          content: uploadedData.content,
-          filename: uploadedData.filename,
-          questionType: selectedType,
-          questionCount: questionCount,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.error || 'Failed to generate quiz');
+      if (quizGroups.length > 0) {
+        await generateSeparateQuizzes(uploadedData);
+        return;
       }
 
+      const { quizId, warning } = await requestQuiz(uploadedData, {
+        filenames: uploadedData.filenames,
+        // Only send a selection when part of the document was picked
+        selectedSections: isPartialSelection ? selectedSections : undefined,
+      });
+
       // Clear sessionStorage
       sessionStorage.removeItem('uploadedContent');
 
-      // Navigate to the quiz page
-      router.push(`/quiz/${data.quizId}`);
+      // Navigate to the quiz page (after saying what is missing, if anything)
+      if (warning) {
+        setShortNotice({ message: warning, href: `/quiz/${quizId}` });
+        return;
+      }
+      router.push(`/quiz/${quizId}`);
     } catch (err) {
       console.error('Generate error:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate quiz');
     } finally {
       setIsGenerating(false);
+      setProgress(null);
     }
   };
 
@@ -109,6 +325,25 @@ export default function ConfigurePage() {
           Choose your quiz settings for{' '}
           <span className="font-medium text-primary">{uploadedData.filename}</span>
         </p>
+        {uploadedData.metadata?.fileCount && (
+          <p className="text-sm text-gray-500 mt-1">
+            {uploadedData.metadata.fileCount} files combined into one quiz
+          </p>
+        )}
+        {uploadedData.skipped && uploadedData.skipped.length > 0 && (
+          <details className="text-sm text-gray-500 mt-1">
+            <summary className="cursor-pointer">
+              {uploadedData.skipped.length} files in the archive were skipped
+            </summary>
+            <ul className="mt-2 space-y-1">
+              {uploadedData.skipped.map((entry) => (
+                <li key={entry.path}>
+                  {entry.path}: {entry.reason}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
         {uploadedData.metadata?.slideCount && (
           <p className="text-sm text-gray-500 mt-1">
             {uploadedData.metadata.slideCount} slides detected
@@ -119,6 +354,12 @@ export default function ConfigurePage() {
             {uploadedData.metadata.pageCount} pages detected
           </p>
         )}
+        {uploadedData.metadata?.ocrSkippedCount && (
+          <p className="text-sm text-amber-600 mt-1">
+            ⚠️ {uploadedData.metadata.ocrSkippedCount} scanned pages or pictures were not read
+            (text recognition has a time limit). Upload fewer scanned files at once to include them.
+          </p>
+        )}
       </section>
 
       {/* Question Type Selection */}
@@ -138,31 +379,296 @@ export default function ConfigurePage() {
         </div>
       </section>
 
-      {/* Question Count */}
+      {/* Question mix for mixed quizzes */}
+      {isMixed && (
+        <section className="mb-8 animate-slideUp">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Question Mix
+            </h2>
+            <div className="flex gap-1 p-1 bg-gray-100 rounded-lg text-sm">
+              {(['percent', 'count'] as BlueprintUnit[]).map((unit) => (
+                <button
+                  key={unit}
+                  onClick={() => handleBlueprintUnit(unit)}
+                  className={`px-3 py-1 rounded-md font-medium transition-all ${
+                    blueprintUnit === unit ? 'bg-white text-primary shadow-sm' : 'text-gray-600'
+                  }`}
+                >
+                  {unit === 'percent' ? 'Percent' : 'Counts'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {MIXED_QUESTION_TYPES.map((type) => (
+              <label
+                key={type}
+                className="flex items-center gap-3 px-4 py-2 bg-white border-2 border-gray-200 rounded-xl"
+              >
+                <span className="flex-1 text-gray-700">
+                  {QUESTION_TYPES[type].icon} {QUESTION_TYPES[type].name}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={blueprintUnit === 'percent' ? 100 : 50}
+                  value={blueprintShares[type] || 0}
+                  onChange={(e) =>
+                    setBlueprintShares((prev) => ({ ...prev, [type]: Math.max(0, parseInt(e.target.value, 10) || 0) }))
+                  }
+                  className="w-20 px-2 py-1 border-2 border-gray-200 rounded-lg text-right focus:outline-none focus:border-primary"
+                />
+                <span className="w-4 text-sm text-gray-500">{blueprintUnit === 'percent' ? '%' : ''}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500 mt-3">
+            {describeBlueprint || 'Add at least one question type'}
+            {blueprintUnit === 'percent' && sharesTotal !== 100 && sharesTotal > 0 &&
+              ` (percentages add up to ${sharesTotal}%, so they are scaled to fit)`}
+          </p>
+        </section>
+      )}
+
+      {/* Scoring for select-all questions (also in a mix that has them) */}
+      {hasMultiSelect && (
+        <section className="mb-8 animate-slideUp">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Scoring
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {Object.values(MULTI_SELECT_SCORING).map((mode) => (
+              <button
+                key={mode.id}
+                onClick={() => setMultiSelectScoring(mode.id)}
+                className={`
+                  px-4 py-3 rounded-xl text-left transition-all
+                  ${
+                    multiSelectScoring === mode.id
+                      ? 'bg-primary text-white shadow-md'
+                      : 'bg-white text-gray-700 border-2 border-gray-200 hover:border-primary'
+                  }
+                `}
+              >
+                <span className="block font-medium">{mode.name}</span>
+                <span className={`block text-xs ${multiSelectScoring === mode.id ? 'text-white/80' : 'text-gray-500'}`}>
+                  {mode.description}
+                </span>
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Question Count (set by the mix when it is in counts) */}
       <section className="mb-8 animate-slideUp" style={{ animationDelay: '0.1s' }}>
         <h2 className="text-lg font-semibold text-gray-900 mb-4">
           Number of Questions
         </h2>
+        {isMixed && blueprintUnit === 'count' ? (
+          <p className="text-gray-600">
+            {totalQuestions} questions, from the question mix above
+            {totalQuestions > 50 && <span className="text-red-600"> - the most is 50</span>}
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-3">
+            {QUIZ_LENGTH_OPTIONS.map((count) => (
+              <button
+                key={count}
+                onClick={() => setQuestionCount(count)}
+                className={`
+                  px-6 py-3 rounded-xl font-medium transition-all
+                  ${
+                    questionCount === count
+                      ? 'bg-primary text-white shadow-md'
+                      : 'bg-white text-gray-700 border-2 border-gray-200 hover:border-primary'
+                  }
+                `}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Difficulty */}
+      <section className="mb-8 animate-slideUp" style={{ animationDelay: '0.12s' }}>
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+          Difficulty
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {Object.values(DIFFICULTY_LEVELS).map((level) => (
+            <button
+              key={level.id}
+              onClick={() => setDifficulty(level.id)}
+              className={`
+                px-4 py-3 rounded-xl text-left transition-all
+                ${
+                  difficulty === level.id
+                    ? 'bg-primary text-white shadow-md'
+                    : 'bg-white text-gray-700 border-2 border-gray-200 hover:border-primary'
+                }
+              `}
+            >
+              <span className="block font-medium">{level.name}</span>
+              <span className={`block text-xs ${difficulty === level.id ? 'text-white/80' : 'text-gray-500'}`}>
+                {level.description}
+              </span>
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {/* Cognitive Level Mix (Bloom's taxonomy) */}
+      <section className="mb-8 animate-slideUp" style={{ animationDelay: '0.14s' }}>
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">
+          Thinking Levels
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Boards mix recall with application and analysis items
+        </p>
         <div className="flex flex-wrap gap-3">
-          {QUIZ_LENGTH_OPTIONS.map((count) => (
+          {COGNITIVE_MIX_PRESETS.map((preset) => (
             <button
-              key={count}
-              onClick={() => setQuestionCount(count)}
+              key={preset.id}
+              onClick={() => setMixPresetId(preset.id)}
               className={`
                 px-6 py-3 rounded-xl font-medium transition-all
                 ${
-                  questionCount === count
+                  mixPresetId === preset.id
+                    ? 'bg-primary text-white shadow-md'
+                    : 'bg-white text-gray-700 border-2 border-gray-200 hover:border-primary'
+                }
+              `}
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex h-3 mt-4 rounded-full overflow-hidden bg-gray-100">
+          {(Object.keys(COGNITIVE_LEVELS) as CognitiveLevel[]).map((level, index) => (
+            <div
+              key={level}
+              className={['bg-blue-300', 'bg-blue-400', 'bg-indigo-500', 'bg-purple-600'][index]}
+              style={{ width: `${cognitiveMix[level]}%` }}
+              title={`${COGNITIVE_LEVELS[level].name} ${cognitiveMix[level]}%`}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">{describeMix}</p>
+      </section>
+
+      {/* Practice or timed exam */}
+      <section className="mb-8 animate-slideUp" style={{ animationDelay: '0.145s' }}>
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+          Mode
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {Object.values(QUIZ_MODES).map((mode) => (
+            <button
+              key={mode.id}
+              onClick={() => setQuizMode(mode.id)}
+              className={`
+                px-4 py-3 rounded-xl text-left transition-all
+                ${
+                  quizMode === mode.id
                     ? 'bg-primary text-white shadow-md'
                     : 'bg-white text-gray-700 border-2 border-gray-200 hover:border-primary'
                 }
               `}
             >
-              {count}
+              <span className="block font-medium">{mode.name}</span>
+              <span className={`block text-xs ${quizMode === mode.id ? 'text-white/80' : 'text-gray-500'}`}>
+                {mode.description}
+              </span>
             </button>
           ))}
         </div>
+        {isExam && (
+          <div className="mt-4 p-4 bg-white rounded-xl border-2 border-gray-200">
+            <div className="flex gap-1 p-1 bg-gray-100 rounded-lg text-sm w-fit mb-3">
+              {Object.values(EXAM_TIME_LIMITS).map((limit) => (
+                <button
+                  key={limit.id}
+                  onClick={() => handleExamTimeUnit(limit.id)}
+                  className={`px-3 py-1 rounded-md font-medium transition-all ${
+                    examTimeUnit === limit.id ? 'bg-white text-primary shadow-sm' : 'text-gray-600'
+                  }`}
+                >
+                  {limit.name}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-3 text-gray-700">
+              <input
+                type="number"
+                min={examLimit.min}
+                max={examLimit.max}
+                value={examTimeValue}
+                onChange={(e) => setExamTimeValue(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                className="w-24 px-2 py-1 border-2 border-gray-200 rounded-lg text-right focus:outline-none focus:border-primary"
+              />
+              <span className="text-sm">{examLimit.unitLabel}</span>
+            </label>
+            <p className={`text-xs mt-2 ${isValidExamTime ? 'text-gray-500' : 'text-red-600'}`}>
+              {isValidExamTime
+                ? examTimeUnit === 'per_question'
+                  ? `${formatDuration(examSeconds)} in total; each question moves on when its time is up`
+                  : `${formatDuration(examSeconds)} in total for ${totalQuestions} questions`
+                : `Choose ${examLimit.min}-${examLimit.max} ${examLimit.unitLabel}`}
+            </p>
+          </div>
+        )}
       </section>
 
+      {/* Slide/Page Selection */}
+      {segments.length > 1 && (
+        <section className="mb-8 animate-slideUp" style={{ animationDelay: '0.15s' }}>
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Choose {segmentUnit(segments).replace(/^./, (c) => c.toUpperCase())}
+          </h2>
+          <SectionPicker
+            segments={segments}
+            sections={uploadedData.sections}
+            selected={selectedSections}
+            onChange={setSelectedSections}
+          />
+        </section>
+      )}
+
+      {/* Quiz Layout (multi-file and ZIP uploads) */}
+      {manifest.length > 1 && (
+        <section className="mb-8 animate-slideUp" style={{ animationDelay: '0.18s' }}>
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            How Many Quizzes?
+          </h2>
+          <div className="flex flex-wrap gap-3">
+            {([
+              { id: 'combined', label: 'One combined quiz' },
+              { id: 'per_file', label: `One per file (${manifest.length})` },
+              ...(folderCount > 1 ? [{ id: 'per_folder', label: `One per folder (${folderCount})` }] : []),
+            ] as { id: QuizLayout; label: string }[]).map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setQuizLayout(option.id)}
+                className={`
+                  px-6 py-3 rounded-xl font-medium transition-all
+                  ${
+                    quizLayout === option.id
+                      ? 'bg-primary text-white shadow-md'
+                      : 'bg-white text-gray-700 border-2 border-gray-200 hover:border-primary'
+                  }
+                `}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Preview Summary */}
       <section className="mb-8 bg-white rounded-2xl p-6 shadow-sm animate-slideUp" style={{ animationDelay: '0.2s' }}>
         <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -172,13 +678,36 @@ export default function ConfigurePage() {
           <p>
             <span className="font-medium">Type:</span>{' '}
             {QUESTION_TYPES[selectedType].icon} {QUESTION_TYPES[selectedType].name}
+            {hasMultiSelect &&
+              ` (${isMixed ? 'select-all: ' : ''}${MULTI_SELECT_SCORING[multiSelectScoring].name.toLowerCase()})`}
           </p>
           <p>
-            <span className="font-medium">Questions:</span> {questionCount}
+            <span className="font-medium">Questions:</span> {totalQuestions}
+            {isMixed && describeBlueprint && ` (${describeBlueprint})`}
+            {quizGroups.length > 0 && ' per quiz'}
           </p>
+          <p>
+            <span className="font-medium">Level:</span> {DIFFICULTY_LEVELS[difficulty].name} ({describeMix})
+          </p>
+          <p>
+            <span className="font-medium">Mode:</span> {QUIZ_MODES[quizMode].name}
+            {isExam && isValidExamTime && ` (${formatDuration(examSeconds)})`}
+          </p>
+          {quizGroups.length > 0 && (
+            <p>
+              <span className="font-medium">Quizzes:</span> {quizGroups.length} (
+              {quizLayout === 'per_file' ? 'one per file' : 'one per folder'})
+            </p>
+          )}
           <p>
             <span className="font-medium">Source:</span> {uploadedData.filename}
           </p>
+          {isPartialSelection && (
+            <p>
+              <span className="font-medium">Covering:</span> {selectedSections.length} of{' '}
+              {segments.length} {segmentUnit(segments)}
+            </p>
+          )}
         </div>
       </section>
 
@@ -189,6 +718,14 @@ export default function ConfigurePage() {
         </div>
       )}
 
+      {/* Quiz saved with fewer questions than asked for */}
+      {shortNotice && (
+        <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl text-center">
+          <p className="text-amber-700 mb-3">⚠️ {shortNotice.message}</p>
+          <Button onClick={() => router.push(shortNotice.href)}>Continue →</Button>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <section className="flex flex-col sm:flex-row gap-4 justify-center animate-slideUp" style={{ animationDelay: '0.3s' }}>
         <Button
@@ -201,6 +738,7 @@ export default function ConfigurePage() {
         <Button
           onClick={handleGenerate}
           isLoading={isGenerating}
+          disabled={Boolean(shortNotice) || (isMixed && (totalQuestions < 1 || totalQuestions > 50 || !describeBlueprint))}
           size="lg"
         >
           {isGenerating ? APP_CONTENT.messages.generating : APP_CONTENT.buttons.startQuiz}
@@ -210,7 +748,7 @@ export default function ConfigurePage() {
       {/* Generation message */}
       {isGenerating && (
         <div className="mt-8 text-center animate-fadeIn">
-          <LoadingSpinner text={APP_CONTENT.messages.generating} />
+          <LoadingSpinner text={progress || APP_CONTENT.messages.generating} />
           <p className="text-sm text-gray-500 mt-4">
             This may take a moment depending on the content size...
           </p>
@@ -2,13 +2,16 @@
 // Flashcard Mode Page
 // =============================================
 // Study questions in flashcard format
+// Answers come from a submitted attempt (?attemptId=), so a quiz is
+// taken once before it can be studied as flashcards
 
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useRouter, useParams } from 'next/navigation';
+import { useRouter, useParams, useSearchParams } from 'next/navigation';
 import { QuizWithQuestions, Question } from '@/lib/types';
 import { APP_CONTENT } from '@/config/content';
+import { LIST_ANSWER_TYPES, formatAnswer } from '@/lib/grading';
 import Button from '@/components/ui/Button';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import Link from 'next/link';
@@ -16,7 +19,9 @@ import Link from 'next/link';
 export default function FlashcardPage() {
   const router = useRouter();
   const params = useParams();
+  const searchParams = useSearchParams();
   const quizId = params.id as string;
+  const attemptId = searchParams.get('attemptId');
 
   // State
   const [quiz, setQuiz] = useState<QuizWithQuestions | null>(null);
@@ -32,7 +37,11 @@ export default function FlashcardPage() {
   useEffect(() => {
     const fetchQuiz = async () => {
       try {
-        const response = await fetch(`/api/quiz/${quizId}`);
+        if (!attemptId) {
+          throw new Error('Finish this quiz once to study it as flashcards');
+        }
+
+        const response = await fetch(`/api/attempts/${attemptId}/results`);
         const data = await response.json();
 
         if (!response.ok || !data.success) {
@@ -52,7 +61,7 @@ export default function FlashcardPage() {
     };
 
     fetchQuiz();
-  }, [quizId]);
+  }, [quizId, attemptId]);
 
   // Get current question
   const currentQuestion = shuffledQuestions[currentIndex];
@@ -177,10 +186,16 @@ export default function FlashcardPage() {
               // Front of card (question)
               <div>
                 <div className="text-sm text-gray-500 mb-4">Question</div>
+                {currentQuestion.case_stem && (
+                  <p className="mb-6 max-h-48 overflow-y-auto p-4 bg-teal-50 border border-teal-200 rounded-xl text-sm text-left text-gray-700 whitespace-pre-wrap">
+                    {currentQuestion.case_stem}
+                  </p>
+                )}
                 <h2 className="text-2xl md:text-3xl font-semibold text-gray-900 mb-6">
                   {currentQuestion.question_text}
                 </h2>
-                {currentQuestion.type === 'multiple_choice' && currentQuestion.options && (
+                {['multiple_choice', 'case_vignette', 'multi_select'].includes(currentQuestion.type) &&
+                  currentQuestion.options && (
                   <div className="mt-6 space-y-2">
                     {currentQuestion.options.map((option, index) => (
                       <div
@@ -192,15 +207,44 @@ export default function FlashcardPage() {
                     ))}
                   </div>
                 )}
+                {currentQuestion.type === 'matching' && currentQuestion.prompts && (
+                  <div className="mt-6 grid grid-cols-2 gap-4 text-left text-sm">
+                    <ul className="space-y-2">
+                      {currentQuestion.prompts.map((prompt, index) => (
+                        <li key={index} className="px-4 py-2 bg-gray-100 rounded-lg text-gray-700">{prompt}</li>
+                      ))}
+                    </ul>
+                    <ul className="space-y-2">
+                      {currentQuestion.options?.map((option, index) => (
+                        <li key={index} className="px-4 py-2 bg-gray-100 rounded-lg text-gray-700">{option}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {currentQuestion.type === 'ordering' && currentQuestion.options && (
+                  <div className="mt-6 space-y-2">
+                    {currentQuestion.options.map((option, index) => (
+                      <div key={index} className="px-4 py-2 bg-gray-100 rounded-lg text-gray-700">
+                        {option}
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <p className="text-sm text-gray-400 mt-8">Click to reveal answer</p>
               </div>
             ) : (
               // Back of card (answer)
               <div>
                 <div className="text-sm text-gray-500 mb-4">Answer</div>
-                <h3 className="text-2xl md:text-3xl font-bold text-primary mb-6">
-                  {currentQuestion.correct_answer}
-                </h3>
+                {LIST_ANSWER_TYPES.includes(currentQuestion.type) ? (
+                  <p className="text-lg font-semibold text-primary text-left whitespace-pre-line mb-6">
+                    {formatAnswer(currentQuestion, currentQuestion.correct_answer)}
+                  </p>
+                ) : (
+                  <h3 className="text-2xl md:text-3xl font-bold text-primary mb-6">
+                    {currentQuestion.correct_answer}
+                  </h3>
+                )}
                 {currentQuestion.explanation && (
                   <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-xl">
                     <p className="text-sm font-medium text-blue-800 mb-1">💡 Explanation</p>
@@ -9,7 +9,7 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { Quiz, Attempt } from '@/lib/types';
 import { APP_CONTENT } from '@/config/content';
-import { formatDate, formatPercentage, getScoreColor } from '@/lib/utils';
+import { formatDate, formatDuration, formatPercentage, formatScore, getScoreColor } from '@/lib/utils';
 import Button from '@/components/ui/Button';
 import Card from '@/components/ui/Card';
 import LoadingSpinner from '@/components/LoadingSpinner';
@@ -154,6 +154,9 @@ export default function HistoryPage() {
                   <option value="multiple_choice">Multiple Choice</option>
                   <option value="identification">Identification</option>
                   <option value="true_false">True/False</option>
+                  <option value="case_vignette">Case Vignette</option>
+                  <option value="matching">Matching</option>
+                  <option value="ordering">Ordering</option>
                   <option value="mixed">Mixed</option>
                 </select>
               </div>
@@ -213,7 +216,7 @@ export default function HistoryPage() {
             No quizzes found
           </h2>
           <p className="text-gray-600 mb-6 max-w-md mx-auto">
-            Try adjusting your search or filters to find what you're looking for
+            Try adjusting your search or filters to find what you&apos;re looking for
           </p>
           <Button
             onClick={() => {
@@ -257,6 +260,19 @@ export default function HistoryPage() {
                     <span className="px-2 py-1 text-xs font-medium rounded-full bg-primary/10 text-primary capitalize">
                       {quiz.question_type.replace('_', ' ')}
                     </span>
+                    {quiz.mode === 'exam' && (
+                      <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-700">
+                        ⏱️ Exam{quiz.time_limit ? ` · ${formatDuration(quiz.time_limit)}` : ''}
+                      </span>
+                    )}
+                    {quiz.coverage && (
+                      <span
+                        className="text-sm text-gray-500"
+                        title={`Questions drawn from ${quiz.coverage.coveredSections} of ${quiz.coverage.totalSections} ${quiz.coverage.unit}`}
+                      >
+                        📚 Covers {quiz.coverage.percent}% of source
+                      </span>
+                    )}
                   </div>
                   <p className="text-xs text-gray-400">
                     Created {formatDate(quiz.created_at)}
@@ -276,7 +292,7 @@ export default function HistoryPage() {
                       {formatPercentage(bestAttempt.score, bestAttempt.total)}
                     </p>
                     <p className="text-xs text-gray-500">
-                      {bestAttempt.score}/{bestAttempt.total} correct
+                      {formatScore(bestAttempt.score)}/{bestAttempt.total} correct
                     </p>
                   </div>
                 )}
@@ -297,7 +313,7 @@ export default function HistoryPage() {
                           📊 Results
                         </Button>
                       </Link>
-                      <Link href={`/flashcards/${quiz.id}`}>
+                      <Link href={`/flashcards/${quiz.id}?attemptId=${bestAttempt.id}`}>
                         <Button variant="ghost" size="sm" className="w-full sm:w-auto">
                           🃏 Flashcards
                         </Button>
@@ -339,6 +355,7 @@ export default function HistoryPage() {
                               : 'bg-gray-100 text-gray-600 border border-gray-200'
                           }`}
                         >
+                          {attempt.mode === 'exam' && '⏱️ '}
                           {formatPercentage(attempt.score, attempt.total)}
                         </span>
                       );
@@ -9,6 +9,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { APP_CONTENT } from '@/config/content';
 import { QUESTION_TYPES } from '@/config/questions';
+import { DocumentSection, SectionOutline } from '@/lib/types';
 import FileUpload from '@/components/FileUpload';
 import VerseCard from '@/components/VerseCard';
 import Button from '@/components/ui/Button';
@@ -16,19 +17,19 @@ import Link from 'next/link';
 
 export default function HomePage() {
   const router = useRouter();
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Handle file selection
-  const handleFileSelect = async (file: File) => {
-    setSelectedFile(file);
+  const handleFilesSelect = async (files: File[]) => {
+    setSelectedFiles(files);
     setError(null);
   };
 
   // Handle continue to configure
   const handleContinue = async () => {
-    if (!selectedFile) {
+    if (selectedFiles.length === 0) {
       setError('Please select a file first');
       return;
     }
@@ -37,11 +38,11 @@ export default function HomePage() {
     setError(null);
 
     try {
-      // Create form data with the file
+      // Create form data with the files
       const formData = new FormData();
-      formData.append('file', selectedFile);
+      selectedFiles.forEach((file) => formData.append('files', file));
 
-      // Upload and parse the file
+      // Upload and parse the files (merged into one quiz)
       const response = await fetch('/api/upload', {
         method: 'POST',
         body: formData,
@@ -54,11 +55,24 @@ export default function HomePage() {
       }
 
       // Store the parsed content in sessionStorage for the configure page
-      sessionStorage.setItem('uploadedContent', JSON.stringify({
-        filename: selectedFile.name,
-        content: data.content,
-        metadata: data.metadata,
-      }));
+      // Sections only need their titles there: their text is already in content
+      const sections: SectionOutline[] | undefined = data.sections?.map(
+        ({ title, location, ocr }: DocumentSection) => ({ title, location, ocr })
+      );
+      try {
+        sessionStorage.setItem('uploadedContent', JSON.stringify({
+          filename: selectedFiles.map((file) => file.name).join(', '),
+          filenames: data.filenames,
+          manifest: data.manifest,
+          skipped: data.skipped,
+          content: data.content,
+          sections,
+          metadata: data.metadata,
+        }));
+      } catch {
+        // The browser's storage quota (about 5MB) is full
+        throw new Error('These files have too much text to quiz on at once. Try fewer files or a smaller folder.');
+      }
 
       // Navigate to configure page
       router.push('/configure');
@@ -91,13 +105,13 @@ export default function HomePage() {
       <section className="max-w-xl mx-auto mb-8 animate-slideUp" style={{ animationDelay: '0.1s' }}>
         <div className="bg-white rounded-3xl shadow-lg p-6 md:p-8">
           <FileUpload
-            onFileSelect={handleFileSelect}
+            onFilesSelect={handleFilesSelect}
             isLoading={isUploading}
             error={error}
           />
 
           {/* Continue button */}
-          {selectedFile && (
+          {selectedFiles.length > 0 && (
             <div className="mt-6">
               <Button
                 onClick={handleContinue}
@@ -2,13 +2,21 @@
 // Quiz Page
 // =============================================
 // Take a quiz - answer questions one by one
+// Questions come without answers; the submit route grades them
+// Progress is autosaved to a draft attempt, so a refresh can resume it
+// Exams count down to a deadline set by the server and submit themselves;
+// timed per question, they go forward only and move on when a question's time is up
+// An event log records time on each question and answer changes (lib/activity.ts)
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { Question, QuizWithQuestions } from '@/lib/types';
+import { Attempt, AttemptEvent, TakingQuestion, QuizForTaking } from '@/lib/types';
 import { APP_CONTENT } from '@/config/content';
+import { formatDuration } from '@/lib/utils';
+import { examDeadline, formatCountdown, secondsLeft } from '@/lib/exam';
+import { appendEvent } from '@/lib/activity';
 import QuestionCard from '@/components/QuestionCard';
 import ProgressBar from '@/components/ProgressBar';
 import Button from '@/components/ui/Button';
@@ -20,14 +28,41 @@ export default function QuizPage() {
   const quizId = params.id as string;
 
   // State
-  const [quiz, setQuiz] = useState<QuizWithQuestions | null>(null);
+  const [quiz, setQuiz] = useState<QuizForTaking | null>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, string>>({});
-  const [startTime] = useState(Date.now());
+  const [startTime, setStartTime] = useState(Date.now());
+  const [attemptId, setAttemptId] = useState<string | null>(null); // Draft being autosaved
+  const [savedDraft, setSavedDraft] = useState<Attempt | null>(null); // Offered for resuming
+  const [isSaving, setIsSaving] = useState(false);
+  const [deadline, setDeadline] = useState<string | null>(null); // Exam mode
+  const [timeLeft, setTimeLeft] = useState<number | null>(null); // Seconds, exam mode
+  const [questionDeadline, setQuestionDeadline] = useState<string | null>(null); // Exam timed per question
+  const [questionTimeLeft, setQuestionTimeLeft] = useState<number | null>(null); // Seconds on the open question
+  const [isMovingOn, setIsMovingOn] = useState(false);
+  const [showExamIntro, setShowExamIntro] = useState(false);
+  const [expiredAttemptId, setExpiredAttemptId] = useState<string | null>(null); // Exam submitted when time ran out
+  const [hasTimedOut, setHasTimedOut] = useState(false);
+  const eventsRef = useRef<AttemptEvent[]>([]); // Saved with the answers, not shown
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Start a new draft attempt (without one the quiz still works, unsaved)
+  const startDraft = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/quiz/${quizId}/draft`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setAttemptId(data.draft.id);
+        setDeadline(data.draft.deadline);
+        setQuestionDeadline(data.draft.question_deadline);
+      }
+    } catch (err) {
+      console.error('Error starting attempt:', err);
+    }
+  }, [quizId]);
+
   // Fetch quiz data
   useEffect(() => {
     const fetchQuiz = async () => {
@@ -40,6 +75,26 @@ export default function QuizPage() {
         }
 
         setQuiz(data.quiz);
+
+        // Offer to resume a draft that has progress; otherwise start one
+        // (an exam waits for the start button, since its clock starts with the draft)
+        const draftResponse = await fetch(`/api/quiz/${quizId}/draft`);
+        const draftData = await draftResponse.json();
+        const draft: Attempt | null = draftData.success ? draftData.draft : null;
+
+        if (draftData.expiredAttemptId) {
+          setExpiredAttemptId(draftData.expiredAttemptId);
+        } else if (draft && (Object.keys(draft.answers).length > 0 || draft.current_index > 0)) {
+          setSavedDraft(draft);
+        } else if (draft) {
+          setAttemptId(draft.id);
+          setDeadline(draft.deadline);
+          setQuestionDeadline(draft.question_deadline);
+        } else if (data.quiz.mode === 'exam') {
+          setShowExamIntro(true);
+        } else {
+          await startDraft();
+        }
       } catch (err) {
         console.error('Error loading quiz:', err);
         setError(err instanceof Error ? err.message : 'Failed to load quiz');
@@ -49,20 +104,110 @@ export default function QuizPage() {
     };
 
     fetchQuiz();
-  }, [quizId]);
+  }, [quizId, startDraft]);
+
+  // Autosave answers and position (shortly after the last change)
+  useEffect(() => {
+    if (!attemptId) return;
+
+    const timer = setTimeout(async () => {
+      setIsSaving(true);
+      try {
+        await fetch(`/api/attempts/${attemptId}`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            answers,
+            currentIndex,
+            timeSpent: Math.floor((Date.now() - startTime) / 1000),
+            events: eventsRef.current,
+          }),
+        });
+      } catch (err) {
+        console.error('Autosave error:', err);
+      } finally {
+        setIsSaving(false);
+      }
+    }, 800);
+
+    return () => clearTimeout(timer);
+  }, [attemptId, answers, currentIndex, startTime]);
+
+  // Pick up the saved draft where it was left
+  const handleResume = () => {
+    if (!savedDraft || !quiz) return;
+    setAnswers(savedDraft.answers);
+    setCurrentIndex(Math.min(savedDraft.current_index, quiz.questions.length - 1));
+    setStartTime(Date.now() - savedDraft.time_spent * 1000);
+    setAttemptId(savedDraft.id);
+    setDeadline(savedDraft.deadline);
+    setQuestionDeadline(savedDraft.question_deadline);
+    eventsRef.current = savedDraft.events || [];
+    setSavedDraft(null);
+  };
+
+  // Drop the saved draft and begin again (practice only: an exam is resumed)
+  const handleStartOver = async () => {
+    setSavedDraft(null);
+    setStartTime(Date.now());
+    eventsRef.current = [];
+    await startDraft();
+  };
+
+  // Start the exam clock
+  const handleStartExam = async () => {
+    setShowExamIntro(false);
+    setExpiredAttemptId(null);
+    setStartTime(Date.now());
+    eventsRef.current = [];
+    await startDraft();
+  };
 
   // Get current question
-  const currentQuestion: Question | undefined = quiz?.questions[currentIndex];
+  const currentQuestion: TakingQuestion | undefined = quiz?.questions[currentIndex];
   const totalQuestions = quiz?.questions.length || 0;
   const answeredCount = Object.keys(answers).length;
+  const isPaced = quiz?.mode === 'exam' && Boolean(quiz.question_time_limit); // Timed per question
+
+  // Log a step, timed from the start of the attempt
+  const recordEvent = useCallback(
+    (type: AttemptEvent['type'], questionId: string, answer?: string, questionType?: string) => {
+      const at = Math.round((Date.now() - startTime) / 100) / 10;
+      const event: AttemptEvent = answer === undefined ? { type, question_id: questionId, at } : { type, question_id: questionId, at, answer };
+      eventsRef.current = appendEvent(eventsRef.current, event, questionType);
+    },
+    [startTime]
+  );
+
+  // The question on screen (none while loading or while a start or resume prompt is shown)
+  const shownQuestionId = isLoading || savedDraft || showExamIntro || expiredAttemptId ? undefined : currentQuestion?.id;
+
+  // Time on each question: opened, left, and paused while the tab is hidden
+  useEffect(() => {
+    if (!shownQuestionId) return;
+    recordEvent('enter', shownQuestionId);
+
+    const handleVisibility = () => recordEvent(document.hidden ? 'hide' : 'show', shownQuestionId);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      recordEvent('leave', shownQuestionId);
+    };
+  }, [shownQuestionId, recordEvent]);
 
   // Handle answer selection
   const handleAnswerSelect = (answer: string) => {
-    if (!currentQuestion) return;
-    setAnswers((prev) => ({
-      ...prev,
-      [currentQuestion.id]: answer,
-    }));
+    if (!currentQuestion || questionTimeLeft === 0) return;
+    recordEvent('answer', currentQuestion.id, answer, currentQuestion.type);
+    // An empty answer (cleared text, no boxes checked) leaves the question unanswered
+    setAnswers((prev) => {
+      const next = { ...prev, [currentQuestion.id]: answer };
+      if (!answer) delete next[currentQuestion.id];
+      return next;
+    });
   };
 
   // Navigate to next question
@@ -72,6 +217,44 @@ export default function QuizPage() {
     }
   };
 
+  // Timed per question: save, then move on to the next question
+  // (the server starts its clock; the question left behind is locked)
+  const handleMoveOn = useCallback(async () => {
+    if (!quiz) return;
+    setIsMovingOn(true);
+
+    let nextIndex = Math.min(currentIndex + 1, quiz.questions.length - 1);
+    let nextDeadline: string | null = examDeadline(quiz.question_time_limit || 0);
+    if (attemptId) {
+      try {
+        const response = await fetch(`/api/attempts/${attemptId}`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            answers,
+            currentIndex: nextIndex,
+            timeSpent: Math.floor((Date.now() - startTime) / 1000),
+            events: eventsRef.current,
+          }),
+        });
+        const data = await response.json();
+        if (response.ok && data.success) {
+          nextIndex = data.currentIndex;
+          nextDeadline = data.questionDeadline;
+        }
+      } catch (err) {
+        console.error('Error moving on:', err);
+      }
+    }
+
+    setCurrentIndex(nextIndex);
+    setQuestionDeadline(nextDeadline);
+    setQuestionTimeLeft(null);
+    setIsMovingOn(false);
+  }, [quiz, currentIndex, attemptId, answers, startTime]);
+
   // Navigate to previous question
   const handlePrevious = () => {
     if (currentIndex > 0) {
@@ -80,7 +263,7 @@ export default function QuizPage() {
   };
 
   // Submit quiz
-  const handleSubmit = async () => {
+  const handleSubmit = useCallback(async () => {
     if (!quiz) return;
 
     setIsSubmitting(true);
@@ -88,6 +271,7 @@ export default function QuizPage() {
 
     try {
       const timeSpent = Math.floor((Date.now() - startTime) / 1000);
+      if (shownQuestionId) recordEvent('leave', shownQuestionId);
 
       const response = await fetch(`/api/quiz/${quizId}/submit`, {
         method: 'POST',
@@ -97,6 +281,8 @@ export default function QuizPage() {
         body: JSON.stringify({
           answers,
           timeSpent,
+          attemptId,
+          events: eventsRef.current,
         }),
       });
 
@@ -114,7 +300,44 @@ export default function QuizPage() {
     } finally {
       setIsSubmitting(false);
     }
-  };
+  }, [quiz, quizId, answers, attemptId, startTime, shownQuestionId, recordEvent, router]);
+
+  // Exam countdown
+  useEffect(() => {
+    if (!deadline) return;
+    const tick = () => setTimeLeft(secondsLeft(deadline));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  // Time is up: submit what has been answered
+  useEffect(() => {
+    if (timeLeft === 0 && !hasTimedOut) {
+      setHasTimedOut(true);
+      handleSubmit();
+    }
+  }, [timeLeft, hasTimedOut, handleSubmit]);
+
+  // Countdown on the open question (exams timed per question)
+  useEffect(() => {
+    if (!questionDeadline) return;
+    const tick = () => setQuestionTimeLeft(secondsLeft(questionDeadline));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [questionDeadline]);
+
+  // The question's time is up: move on, or submit after the last one
+  useEffect(() => {
+    if (questionTimeLeft !== 0 || isMovingOn || hasTimedOut) return;
+    if (currentIndex < totalQuestions - 1) {
+      handleMoveOn();
+    } else {
+      setHasTimedOut(true);
+      handleSubmit();
+    }
+  }, [questionTimeLeft, isMovingOn, hasTimedOut, currentIndex, totalQuestions, handleMoveOn, handleSubmit]);
 
   // Loading state
   if (isLoading) {
@@ -142,11 +365,109 @@ export default function QuizPage() {
     );
   }
 
+  // Resume prompt for a quiz left part-way through
+  if (savedDraft) {
+    const savedCount = Object.keys(savedDraft.answers).length;
+    return (
+      <div className="max-w-2xl mx-auto px-4 py-8 text-center">
+        <div className="bg-white rounded-2xl shadow-sm p-8 animate-fadeIn">
+          <div className="text-5xl mb-4">⏸️</div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            Resume where you left off?
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {quiz.title}: {savedCount} of {totalQuestions} answered, at question{' '}
+            {Math.min(savedDraft.current_index, totalQuestions - 1) + 1}
+            {savedDraft.deadline && (
+              <span className="block mt-1 font-medium text-gray-800">
+                ⏱️ {formatCountdown(secondsLeft(savedDraft.deadline))} left on the exam clock
+              </span>
+            )}
+            {savedDraft.mode === 'exam' && (
+              <span className="block mt-1 text-sm">
+                An exam can&apos;t be restarted: resume it and submit it to try again.
+              </span>
+            )}
+          </p>
+          <div className="flex flex-col sm:flex-row justify-center gap-3">
+            <Button onClick={handleResume}>▶️ Resume</Button>
+            {savedDraft.mode !== 'exam' && (
+              <Button variant="outline" onClick={handleStartOver}>
+                🔄 Start Over
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Exam intro: the clock starts with the button
+  if (showExamIntro || expiredAttemptId) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 py-8 text-center">
+        <div className="bg-white rounded-2xl shadow-sm p-8 animate-fadeIn">
+          <div className="text-5xl mb-4">{expiredAttemptId ? '⏰' : '⏱️'}</div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            {expiredAttemptId ? 'Time ran out on your last exam' : 'Timed Exam'}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {expiredAttemptId
+              ? 'It was submitted with the answers saved before time was up.'
+              : isPaced
+              ? `${quiz.title}: ${totalQuestions} questions, ${formatDuration(quiz.question_time_limit || 0)} for each. ` +
+                'Questions come one at a time with no going back, and each moves on when its time runs out.'
+              : `${quiz.title}: ${totalQuestions} questions in ${formatDuration(quiz.time_limit || 0)}. ` +
+                'The clock keeps running if you leave, and your answers are submitted when time runs out.'}
+          </p>
+          <div className="flex flex-col sm:flex-row justify-center gap-3">
+            {expiredAttemptId && (
+              <Button variant="outline" onClick={() => router.push(`/results/${quizId}?attemptId=${expiredAttemptId}`)}>
+                📊 See Results
+              </Button>
+            )}
+            <Button onClick={handleStartExam}>
+              ▶️ {expiredAttemptId ? 'Start a New Exam' : 'Start Exam'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-3xl mx-auto px-4 py-8">
+      {/* Exam countdown */}
+      {timeLeft !== null && (
+        <div className="sticky top-20 z-10 flex justify-center mb-4">
+          <span
+            className={`px-4 py-2 rounded-full font-mono font-semibold shadow-sm ${
+              timeLeft <= 60 ? 'bg-red-100 text-red-700' : 'bg-white text-gray-800'
+            }`}
+          >
+            {timeLeft > 0 ? `⏱️ ${formatCountdown(timeLeft)} left` : '⏰ Time is up - submitting...'}
+          </span>
+          {questionTimeLeft !== null && timeLeft > 0 && (
+            <span
+              className={`ml-2 px-4 py-2 rounded-full font-mono font-semibold shadow-sm ${
+                questionTimeLeft <= 10 ? 'bg-red-100 text-red-700' : 'bg-white text-gray-800'
+              }`}
+            >
+              {questionTimeLeft > 0 ? `${formatCountdown(questionTimeLeft)} on this question` : '⏰ Moving on...'}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Quiz title */}
       <div className="text-center mb-6 animate-fadeIn">
         <h1 className="text-2xl font-bold text-gray-900">{quiz.title}</h1>
+        {quiz.coverage && (
+          <p className="text-sm text-gray-500 mt-1">
+            Covers {quiz.coverage.percent}% of the source ({quiz.coverage.coveredSections} of{' '}
+            {quiz.coverage.totalSections} {quiz.coverage.unit})
+          </p>
+        )}
       </div>
 
       {/* Progress bar */}
@@ -166,28 +487,28 @@ export default function QuizPage() {
         />
       </div>
 
-      {/* Navigation buttons */}
+      {/* Navigation buttons (timed per question, there is no going back) */}
       <div className="flex justify-between items-center animate-slideUp">
         <Button
           variant="outline"
           onClick={handlePrevious}
-          disabled={currentIndex === 0}
+          disabled={currentIndex === 0 || isPaced}
         >
           ← {APP_CONTENT.buttons.previousQuestion}
         </Button>
 
         {currentIndex === totalQuestions - 1 ? (
-          // Submit button on last question
+          // Submit button on last question (exams can be handed in unfinished)
           <Button
             onClick={handleSubmit}
             isLoading={isSubmitting}
-            disabled={answeredCount < totalQuestions}
+            disabled={!deadline && answeredCount < totalQuestions}
           >
             {APP_CONTENT.buttons.submit}
           </Button>
         ) : (
           // Next button
-          <Button onClick={handleNext}>
+          <Button onClick={isPaced ? handleMoveOn : handleNext} isLoading={isMovingOn}>
             {APP_CONTENT.buttons.nextQuestion} →
           </Button>
         )}
@@ -199,6 +520,7 @@ export default function QuizPage() {
           <button
             key={q.id}
             onClick={() => setCurrentIndex(index)}
+            disabled={isPaced}
             className={`
               w-8 h-8 rounded-full text-sm font-medium transition-all
               ${
@@ -222,6 +544,13 @@ export default function QuizPage() {
         </p>
       )}
 
+      {/* Autosave status */}
+      {attemptId && (
+        <p className="text-center text-xs text-gray-400 mt-2">
+          {isSaving ? 'Saving progress...' : '✓ Progress saved - you can come back to this quiz later'}
+        </p>
+      )}
+
       {/* Error message */}
       {error && (
         <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-xl">
@@ -9,7 +9,9 @@ import { useState, useEffect } from 'react';
 import { useRouter, useParams, useSearchParams } from 'next/navigation';
 import { QuizWithQuestions, Attempt } from '@/lib/types';
 import { APP_CONTENT } from '@/config/content';
-import { formatDuration, formatPercentage, getScoreColor } from '@/lib/utils';
+import { formatDuration, formatPercentage, formatScore, getScoreColor } from '@/lib/utils';
+import { gradeAnswer } from '@/lib/grading';
+import { summarizeActivity } from '@/lib/activity';
 import QuestionCard from '@/components/QuestionCard';
 import Button from '@/components/ui/Button';
 import LoadingSpinner from '@/components/LoadingSpinner';
@@ -61,16 +63,6 @@ export default function ResultsPage() {
   useEffect(() => {
     const fetchResults = async () => {
       try {
-        // Fetch quiz with questions
-        const quizResponse = await fetch(`/api/quiz/${quizId}`);
-        const quizData = await quizResponse.json();
-
-        if (!quizResponse.ok || !quizData.success) {
-          throw new Error(quizData.error || 'Failed to load quiz');
-        }
-
-        setQuiz(quizData.quiz);
-
         // Fetch all attempts for this quiz
         const attemptsResponse = await fetch(`/api/quizzes`);
         const attemptsData = await attemptsResponse.json();
@@ -86,18 +78,21 @@ export default function ResultsPage() {
           }
         }
 
-        // Fetch attempt if attemptId is provided
-        if (attemptId) {
-          const attemptResponse = await fetch(`/api/attempts/${attemptId}`);
-          const attemptData = await attemptResponse.json();
+        // Answers come with a submitted attempt (most recent if no attemptId)
+        const resultsId = attemptId || attempts[0]?.id;
+        if (!resultsId) {
+          throw new Error('Finish this quiz to see your results');
+        }
 
-          if (attemptResponse.ok && attemptData.success) {
-            setAttempt(attemptData.attempt);
-          }
-        } else if (attempts.length > 0) {
-          // Use most recent attempt if no attemptId provided
-          setAttempt(attempts[0]);
+        const resultsResponse = await fetch(`/api/attempts/${resultsId}/results`);
+        const resultsData = await resultsResponse.json();
+
+        if (!resultsResponse.ok || !resultsData.success) {
+          throw new Error(resultsData.error || 'Failed to load results');
         }
+
+        setQuiz(resultsData.quiz);
+        setAttempt(resultsData.attempt);
       } catch (err) {
         console.error('Error loading results:', err);
         setError(err instanceof Error ? err.message : 'Failed to load results');
@@ -142,6 +137,31 @@ export default function ResultsPage() {
   const answers = attempt?.answers || {};
   const isPassing = percentage >= 60;
 
+  // Case vignettes: how many linked questions were right in each case
+  const caseResults: { stem: string; correct: number; total: number }[] = [];
+  const caseIndex: Record<string, number> = {};
+  quiz.questions.forEach((question) => {
+    if (!question.case_group || !question.case_stem) return;
+    if (caseIndex[question.case_group] === undefined) {
+      caseIndex[question.case_group] = caseResults.length;
+      caseResults.push({ stem: question.case_stem, correct: 0, total: 0 });
+    }
+    const result = caseResults[caseIndex[question.case_group]];
+    result.total++;
+    result.correct += gradeAnswer(question, answers[question.id], quiz.multi_select_scoring || undefined);
+  });
+
+  // Time on each question and answer changes, from the attempt's event log
+  // (attempts saved before events were recorded have none)
+  const activity = summarizeActivity(attempt?.events || [], quiz.questions);
+  const activityRows = quiz.questions
+    .map((question, index) => ({ number: index + 1, id: question.id, ...activity[question.id] }))
+    .filter((row) => row.visits !== undefined);
+  const longestSeconds = Math.max(1, ...activityRows.map((row) => row.seconds));
+  const rightToWrong = activityRows.reduce((sum, row) => sum + row.rightToWrong, 0);
+  const wrongToRight = activityRows.reduce((sum, row) => sum + row.wrongToRight, 0);
+  const revisited = activityRows.filter((row) => row.visits > 1).length;
+
   return (
     <div className="max-w-3xl mx-auto px-4 py-8">
       {/* Confetti for passing scores */}
@@ -170,10 +190,10 @@ export default function ResultsPage() {
         <section className="text-center mb-6 animate-fadeInUp">
           <div className="text-8xl mb-4 animate-shake">😔</div>
           <h2 className="text-3xl font-bold text-orange-600 mb-2">
-            Don't Give Up! 💪
+            Don&apos;t Give Up! 💪
           </h2>
           <p className="text-lg text-gray-700 max-w-md mx-auto">
-            Every expert was once a beginner. Keep practicing and you'll get there!
+            Every expert was once a beginner. Keep practicing and you&apos;ll get there!
           </p>
         </section>
       )}
@@ -185,7 +205,7 @@ export default function ResultsPage() {
         {/* Big score display */}
         <div className={`mb-6 ${isPassing ? 'animate-celebrate' : ''}`}>
           <span className={`text-6xl font-bold ${getScoreColor(score, total)}`}>
-            {score}
+            {formatScore(score)}
           </span>
           <span className="text-4xl text-gray-400">/{total}</span>
         </div>
@@ -218,11 +238,11 @@ export default function ResultsPage() {
         {/* Stats */}
         <div className="grid grid-cols-3 gap-4 text-center">
           <div>
-            <p className="text-2xl font-bold text-green-600">{score}</p>
+            <p className="text-2xl font-bold text-green-600">{formatScore(score)}</p>
             <p className="text-sm text-gray-500">Correct</p>
           </div>
           <div>
-            <p className="text-2xl font-bold text-red-600">{total - score}</p>
+            <p className="text-2xl font-bold text-red-600">{formatScore(total - score)}</p>
             <p className="text-sm text-gray-500">Wrong</p>
           </div>
           <div>
@@ -255,10 +275,10 @@ export default function ResultsPage() {
           ) : (
             <div>
               <p className="text-xl font-semibold text-orange-700 mb-2">
-                💪 Keep Going! You've Got This!
+                💪 Keep Going! You&apos;ve Got This!
               </p>
               <p className="text-base text-orange-600 mb-3">
-                Don't be discouraged. Every mistake is a learning opportunity. Review the questions you got wrong and try again!
+                Don&apos;t be discouraged. Every mistake is a learning opportunity. Review the questions you got wrong and try again!
               </p>
               <div className="mt-4 p-3 bg-white/50 rounded-lg">
                 <p className="text-sm text-gray-700">
@@ -287,11 +307,13 @@ export default function ResultsPage() {
             {showCompare ? 'Hide' : 'Compare'} Attempts
           </Button>
         )}
-        <Link href={`/flashcards/${quizId}`}>
-          <Button variant="outline" leftIcon={<span>🃏</span>}>
-            Flashcard Mode
-          </Button>
-        </Link>
+        {attempt && (
+          <Link href={`/flashcards/${quizId}?attemptId=${attempt.id}`}>
+            <Button variant="outline" leftIcon={<span>🃏</span>}>
+              Flashcard Mode
+            </Button>
+          </Link>
+        )}
         <Link href="/">
           <Button leftIcon={<span>🏠</span>}>
             {APP_CONTENT.buttons.backToHome}
@@ -343,7 +365,7 @@ export default function ResultsPage() {
                           {formatPercentage(att.score, att.total)}
                         </div>
                         <div className="text-xs text-gray-500">
-                          {att.score}/{att.total} correct
+                          {formatScore(att.score)}/{att.total} correct
                         </div>
                         {isImproving && (
                           <div className="text-xs text-green-600 mt-1">↑ Improved!</div>
@@ -405,6 +427,59 @@ export default function ResultsPage() {
         </section>
       )}
 
+      {/* Case Results Section */}
+      {attempt && caseResults.length > 0 && (
+        <section className="mb-8 animate-slideUp">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Case Results</h2>
+          <div className="bg-white rounded-2xl shadow-lg p-6 space-y-3">
+            {caseResults.map((result, index) => (
+              <div key={index} className="flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-700 truncate">
+                  <span className="font-medium">🩺 Case {index + 1}:</span> {result.stem}
+                </p>
+                <span className={`text-sm font-semibold whitespace-nowrap ${getScoreColor(result.correct, result.total)}`}>
+                  {result.correct}/{result.total} correct
+                </span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Time per Question Section */}
+      {activityRows.length > 0 && (
+        <section className="mb-8 animate-slideUp">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Time per Question</h2>
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <div className="flex flex-wrap gap-x-6 gap-y-2 mb-4 text-sm">
+              <span className={rightToWrong > 0 ? 'font-medium text-red-600' : 'text-gray-600'}>
+                Changed right → wrong: {rightToWrong}
+              </span>
+              <span className="text-gray-600">Changed wrong → right: {wrongToRight}</span>
+              <span className="text-gray-600">Revisited: {revisited}</span>
+            </div>
+            <div className="space-y-2">
+              {activityRows.map((row) => (
+                <div key={row.id} className="flex items-center gap-3 text-sm">
+                  <span className="w-10 text-gray-500">Q{row.number}</span>
+                  <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${row.rightToWrong > 0 ? 'bg-red-400' : 'bg-primary'}`}
+                      style={{ width: `${(row.seconds / longestSeconds) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-16 text-right text-gray-700">{formatDuration(row.seconds)}</span>
+                  <span className="w-24 text-xs text-gray-500">
+                    {row.visits > 1 && `↺ ${row.visits - 1} `}
+                    {row.rightToWrong > 0 && <span className="text-red-600">✓→✗ {row.rightToWrong}</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+
       {/* Review Questions Section */}
       <section className="animate-slideUp" style={{ animationDelay: '0.2s' }}>
         <div className="flex justify-between items-center mb-4">
@@ -2,6 +2,7 @@
 // File Upload Component
 // =============================================
 // Drag & drop file upload with validation
+// Several files can be dropped at once to build one quiz
 
 'use client';
 
@@ -12,7 +13,7 @@ import { formatFileSize } from '@/lib/utils';
 import { APP_CONTENT } from '@/config/content';
 
 // Supported file extensions (defined here to avoid importing server-only modules)
-const SUPPORTED_EXTENSIONS = ['pptx', 'ppt', 'pdf'] as const;
+const SUPPORTED_EXTENSIONS = ['pptx', 'ppt', 'pdf', 'docx', 'txt', 'md', 'zip'] as const;
 
 // Check if a file extension is supported
 function isSupportedFile(filename: string): boolean {
@@ -20,20 +21,23 @@ function isSupportedFile(filename: string): boolean {
   return SUPPORTED_EXTENSIONS.includes(ext as typeof SUPPORTED_EXTENSIONS[number]);
 }
 
+// Most files that can be combined into one quiz (matches /api/upload)
+const MAX_FILES = 10;
+
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   isLoading?: boolean;
   error?: string | null;
   className?: string;
 }
 
 export default function FileUpload({
-  onFileSelect,
+  onFilesSelect,
   isLoading = false,
   error = null,
   className,
 }: FileUploadProps) {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [dragError, setDragError] = useState<string | null>(null);
 
   // Handle file drop
@@ -47,34 +51,43 @@ export default function FileUpload({
         return;
       }
 
-      // Get the first file
-      const file = acceptedFiles[0];
-      if (!file) return;
+      if (acceptedFiles.length === 0) return;
+
+      if (acceptedFiles.length > MAX_FILES) {
+        setDragError(`You can combine up to ${MAX_FILES} files in one quiz`);
+        return;
+      }
 
-      // Validate file type
-      if (!isSupportedFile(file.name)) {
+      // Validate file types
+      const unsupported = acceptedFiles.find((file) => !isSupportedFile(file.name));
+      if (unsupported) {
         setDragError(
-          `Unsupported file type. Please upload: ${SUPPORTED_EXTENSIONS.join(', ')}`
+          `Unsupported file type: ${unsupported.name}. Please upload: ${SUPPORTED_EXTENSIONS.join(', ')}`
         );
         return;
       }
 
-      // Store and pass the file
-      setSelectedFile(file);
-      onFileSelect(file);
+      // Store and pass the files
+      setSelectedFiles(acceptedFiles);
+      onFilesSelect(acceptedFiles);
     },
-    [onFileSelect]
+    [onFilesSelect]
   );
 
   // Configure dropzone
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    multiple: false,
+    multiple: true,
     disabled: isLoading,
     accept: {
       'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['.pptx'],
       'application/vnd.ms-powerpoint': ['.ppt'],
       'application/pdf': ['.pdf'],
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+      'text/plain': ['.txt'],
+      'text/markdown': ['.md'],
+      'application/zip': ['.zip'],
+      'application/x-zip-compressed': ['.zip'],
     },
   });
 
@@ -106,26 +119,40 @@ export default function FileUpload({
 
         {/* Upload icon */}
         <div className="text-5xl mb-4">
-          {isLoading ? '⏳' : selectedFile ? '✅' : '📄'}
+          {isLoading ? '⏳' : selectedFiles.length > 0 ? '✅' : '📄'}
         </div>
 
         {/* Main text */}
         {isLoading ? (
           <div>
             <h3 className="text-lg font-semibold text-gray-700 mb-1">
-              Processing your file...
+              Processing {selectedFiles.length > 1 ? `${selectedFiles.length} files` : 'your file'}...
             </h3>
             <p className="text-gray-500">This may take a moment</p>
           </div>
-        ) : selectedFile ? (
+        ) : selectedFiles.length === 1 ? (
           <div>
             <h3 className="text-lg font-semibold text-gray-700 mb-1">
-              {selectedFile.name}
+              {selectedFiles[0].name}
             </h3>
             <p className="text-gray-500">
-              {formatFileSize(selectedFile.size)} • Click or drop to change
+              {formatFileSize(selectedFiles[0].size)} • Click or drop to change
             </p>
           </div>
+        ) : selectedFiles.length > 1 ? (
+          <div>
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">
+              {selectedFiles.length} files selected
+            </h3>
+            <ul className="text-sm text-gray-600 mb-2 space-y-1">
+              {selectedFiles.map((file) => (
+                <li key={file.name} className="truncate">
+                  {file.name} <span className="text-gray-400">({formatFileSize(file.size)})</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-gray-500">Click or drop to change</p>
+          </div>
         ) : (
           <div>
             <h3 className="text-lg font-semibold text-gray-700 mb-1">
@@ -144,7 +171,7 @@ export default function FileUpload({
       </div>
 
       {/* Supported formats */}
-      <div className="flex justify-center gap-2 mt-4">
+      <div className="flex flex-wrap justify-center gap-2 mt-4">
         {APP_CONTENT.upload.supportedFormats.map((format) => (
           <span
             key={format}
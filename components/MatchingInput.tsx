@@ -0,0 +1,124 @@
+// =============================================
+// Matching Input
+// =============================================
+// Answer area for matching questions: drag a match from the bank onto an
+// item, or pick it from the item's dropdown (works with the keyboard)
+// Used in QuestionCard
+
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { decodeAnswerList, encodeAnswerList } from '@/lib/grading';
+
+interface MatchingInputProps {
+  prompts: string[];
+  options: string[];
+  value: string | null; // JSON list: the match chosen for each prompt
+  correctAnswer: string;
+  onChange: (value: string) => void;
+  showResult?: boolean;
+  disabled?: boolean;
+}
+
+export default function MatchingInput({
+  prompts,
+  options,
+  value,
+  correctAnswer,
+  onChange,
+  showResult = false,
+  disabled = false,
+}: MatchingInputProps) {
+  const [dragOver, setDragOver] = useState<number | null>(null);
+
+  const chosen = prompts.map((_, index) => decodeAnswerList(value)[index] || '');
+  const correct = decodeAnswerList(correctAnswer);
+  const unused = options.filter((option) => !chosen.includes(option));
+
+  // Each match is used once: giving it to one item takes it from another
+  const assign = (promptIndex: number, match: string) => {
+    if (disabled) return;
+    const next = chosen.map((current) => (current === match ? '' : current));
+    next[promptIndex] = match;
+    onChange(encodeAnswerList(next));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Matches not used yet */}
+      {!showResult && (
+        <div className="flex flex-wrap gap-2 min-h-[2.5rem] p-3 bg-gray-50 border border-dashed border-gray-300 rounded-xl">
+          {unused.length === 0 ? (
+            <span className="text-sm text-gray-400">All matches placed</span>
+          ) : (
+            unused.map((option) => (
+              <span
+                key={option}
+                draggable={!disabled}
+                onDragStart={(e) => e.dataTransfer.setData('text/plain', option)}
+                className="px-3 py-1.5 bg-white border-2 border-gray-200 rounded-lg text-sm text-gray-700 cursor-grab"
+              >
+                {option}
+              </span>
+            ))
+          )}
+        </div>
+      )}
+
+      {/* Items, each with a drop zone and a dropdown */}
+      {prompts.map((prompt, index) => {
+        const isRight = chosen[index] !== '' && chosen[index].toLowerCase() === (correct[index] || '').toLowerCase();
+
+        return (
+          <div
+            key={index}
+            onDragOver={(e) => {
+              if (disabled) return;
+              e.preventDefault();
+              setDragOver(index);
+            }}
+            onDragLeave={() => setDragOver(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragOver(null);
+              const match = e.dataTransfer.getData('text/plain');
+              if (options.includes(match)) assign(index, match);
+            }}
+            className={cn(
+              'grid md:grid-cols-2 gap-3 items-center p-3 rounded-xl border-2 transition-colors',
+              dragOver === index ? 'border-primary bg-primary/5' : 'border-gray-200',
+              showResult && isRight && 'border-green-500 bg-green-50',
+              showResult && !isRight && 'border-red-500 bg-red-50'
+            )}
+          >
+            <label htmlFor={`match-${index}`} className="text-gray-700">
+              {prompt}
+            </label>
+            <div>
+              <select
+                id={`match-${index}`}
+                value={chosen[index]}
+                onChange={(e) => assign(index, e.target.value)}
+                disabled={disabled}
+                className="w-full px-3 py-2 rounded-lg border-2 border-gray-200 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-primary/50"
+              >
+                <option value="">Drop or choose a match...</option>
+                {options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+              {showResult && !isRight && (
+                <p className="mt-1 text-sm text-green-700">
+                  <strong>Correct:</strong> {correct[index]}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+// =============================================
+// Multi-Select Input
+// =============================================
+// Answer area for "select all that apply" questions: a checkbox per option
+// Used in QuestionCard
+
+'use client';
+
+import { cn } from '@/lib/utils';
+import { decodeAnswerList, encodeAnswerList } from '@/lib/grading';
+
+interface MultiSelectInputProps {
+  options: string[];
+  value: string | null; // JSON list of the options picked
+  correctAnswer: string;
+  onChange: (value: string) => void;
+  showResult?: boolean;
+  disabled?: boolean;
+}
+
+export default function MultiSelectInput({
+  options,
+  value,
+  correctAnswer,
+  onChange,
+  showResult = false,
+  disabled = false,
+}: MultiSelectInputProps) {
+  const picked = decodeAnswerList(value);
+  const correct = decodeAnswerList(correctAnswer);
+
+  // Keep picks in option order so the same set always saves the same way
+  // Unchecking everything clears the answer, so the question counts as unanswered
+  const toggle = (option: string) => {
+    if (disabled) return;
+    const next = picked.includes(option) ? picked.filter((item) => item !== option) : [...picked, option];
+    onChange(next.length > 0 ? encodeAnswerList(options.filter((item) => next.includes(item))) : '');
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">Select all that apply</p>
+      {options.map((option, index) => {
+        const isPicked = picked.includes(option);
+        const isCorrectOption = correct.includes(option);
+
+        return (
+          <label
+            key={index}
+            className={cn(
+              'w-full px-4 py-3 rounded-xl border-2 transition-all flex items-center gap-3',
+              disabled ? 'cursor-default' : 'cursor-pointer hover:border-primary',
+              !isPicked && !showResult && 'border-gray-200 bg-white',
+              isPicked && !showResult && 'border-primary bg-primary/5',
+              showResult && isCorrectOption && 'border-green-500 bg-green-50',
+              showResult && isPicked && !isCorrectOption && 'border-red-500 bg-red-50',
+              showResult && !isPicked && !isCorrectOption && 'border-gray-200 bg-white'
+            )}
+          >
+            <input
+              type="checkbox"
+              checked={isPicked}
+              onChange={() => toggle(option)}
+              disabled={disabled}
+              className="w-5 h-5 accent-primary"
+            />
+            <span className="flex-1 text-gray-700">{option}</span>
+
+            {/* Result indicator: missed correct options are marked too */}
+            {showResult && isCorrectOption && (
+              <span className={isPicked ? 'text-green-600' : 'text-xs font-medium text-green-700'}>
+                {isPicked ? '✓' : 'Missed'}
+              </span>
+            )}
+            {showResult && isPicked && !isCorrectOption && (
+              <span className="text-red-600">✗</span>
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
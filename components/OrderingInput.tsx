@@ -0,0 +1,122 @@
+// =============================================
+// Ordering Input
+// =============================================
+// Answer area for ordering questions: drag items into place, or move them
+// with the up/down buttons (works with the keyboard)
+// Used in QuestionCard
+
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { decodeAnswerList, encodeAnswerList } from '@/lib/grading';
+
+interface OrderingInputProps {
+  options: string[]; // The items, in the shuffled order they start in
+  value: string | null; // JSON list: the items in the student's order
+  correctAnswer: string;
+  onChange: (value: string) => void;
+  showResult?: boolean;
+  disabled?: boolean;
+}
+
+export default function OrderingInput({
+  options,
+  value,
+  correctAnswer,
+  onChange,
+  showResult = false,
+  disabled = false,
+}: OrderingInputProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const saved = decodeAnswerList(value);
+  const items = saved.length === options.length ? saved : options;
+  const correct = decodeAnswerList(correctAnswer);
+
+  const move = (from: number, to: number) => {
+    if (disabled || to < 0 || to >= items.length || from === to) return;
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(encodeAnswerList(next));
+  };
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => {
+        const isRight = (correct[index] || '').toLowerCase() === item.toLowerCase();
+
+        return (
+          <div
+            key={item}
+            draggable={!disabled}
+            onDragStart={() => setDragIndex(index)}
+            onDragEnd={() => setDragIndex(null)}
+            onDragOver={(e) => {
+              if (!disabled) e.preventDefault();
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null) move(dragIndex, index);
+              setDragIndex(null);
+            }}
+            className={cn(
+              'flex items-center gap-3 px-4 py-3 rounded-xl border-2 bg-white transition-all',
+              !disabled && 'cursor-grab',
+              dragIndex === index ? 'border-primary opacity-50' : 'border-gray-200',
+              showResult && isRight && 'border-green-500 bg-green-50',
+              showResult && !isRight && 'border-red-500 bg-red-50'
+            )}
+          >
+            <span className="w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium bg-gray-100 text-gray-600">
+              {index + 1}
+            </span>
+            <span className="flex-1 text-gray-700">
+              {item}
+              {showResult && !isRight && (
+                <span className="block mt-1 text-sm text-green-700">
+                  <strong>Correct #{index + 1}:</strong> {correct[index]}
+                </span>
+              )}
+            </span>
+
+            {!disabled && (
+              <div className="flex flex-col">
+                <button
+                  type="button"
+                  onClick={() => move(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={`Move "${item}" up`}
+                  className="px-2 text-gray-500 hover:text-primary disabled:opacity-30"
+                >
+                  ▲
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, index + 1)}
+                  disabled={index === items.length - 1}
+                  aria-label={`Move "${item}" down`}
+                  className="px-2 text-gray-500 hover:text-primary disabled:opacity-30"
+                >
+                  ▼
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {/* The starting order counts as an answer only once confirmed */}
+      {!disabled && saved.length !== options.length && (
+        <button
+          type="button"
+          onClick={() => onChange(encodeAnswerList(items))}
+          className="text-sm font-medium text-primary hover:underline"
+        >
+          ✓ Keep this order
+        </button>
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,25 @@
 // Question Card Component
 // =============================================
 // Displays a single quiz question with options
+// Case vignette questions keep their scenario next to the question
 
 'use client';
 
 import { useState, useEffect } from 'react';
 import { cn } from '@/lib/utils';
-import { Question } from '@/lib/types';
+import { AnswerKeyField, Question, TakingQuestion } from '@/lib/types';
+import { isUngrounded } from '@/lib/grounding';
+import { isCorrectAnswer, matchFreeText } from '@/lib/grading';
+import SourcePanel from '@/components/SourcePanel';
+import MatchingInput from '@/components/MatchingInput';
+import OrderingInput from '@/components/OrderingInput';
+import MultiSelectInput from '@/components/MultiSelectInput';
+
+// While taking a quiz the question has no answer key (see GET /api/quiz/[id])
+type CardQuestion = TakingQuestion & Partial<Pick<Question, AnswerKeyField>>;
 
 interface QuestionCardProps {
-  question: Question;
+  question: CardQuestion;
   questionNumber: number;
   totalQuestions: number;
   selectedAnswer: string | null;
@@ -39,8 +49,12 @@ export default function QuestionCard({
   const [hasNote, setHasNote] = useState(false);
 
   // Check if answer is correct (for showing results)
-  const isCorrect = selectedAnswer?.toLowerCase().trim() === 
-                    question.correct_answer.toLowerCase().trim();
+  const correctAnswer = question.correct_answer ?? '';
+  const isCorrect = isCorrectAnswer({ ...question, correct_answer: correctAnswer }, selectedAnswer);
+  const acceptedAnswers = question.accepted_answers || [];
+  // Typed answers that count despite a typo or an alternate name
+  const isCloseMatch = question.type === 'identification' && isCorrect && !!selectedAnswer &&
+    selectedAnswer.trim().toLowerCase() !== correctAnswer.trim().toLowerCase();
 
   // Check bookmark status on mount
   useEffect(() => {
@@ -174,12 +188,20 @@ export default function QuestionCard({
               'px-3 py-1 text-xs font-medium rounded-full',
               question.type === 'multiple_choice' && 'bg-blue-100 text-blue-700',
               question.type === 'identification' && 'bg-green-100 text-green-700',
-              question.type === 'true_false' && 'bg-purple-100 text-purple-700'
+              question.type === 'true_false' && 'bg-purple-100 text-purple-700',
+              question.type === 'case_vignette' && 'bg-teal-100 text-teal-700',
+              question.type === 'matching' && 'bg-amber-100 text-amber-700',
+              question.type === 'ordering' && 'bg-pink-100 text-pink-700',
+              question.type === 'multi_select' && 'bg-indigo-100 text-indigo-700'
             )}
           >
             {question.type === 'multiple_choice' && '🎯 Multiple Choice'}
             {question.type === 'identification' && '✍️ Identification'}
             {question.type === 'true_false' && '⚖️ True or False'}
+            {question.type === 'case_vignette' && '🩺 Case Vignette'}
+            {question.type === 'matching' && '🔗 Matching'}
+            {question.type === 'ordering' && '🔢 Ordering'}
+            {question.type === 'multi_select' && '☑️ Select All That Apply'}
           </span>
           
           {/* Bookmark button */}
@@ -201,100 +223,184 @@ export default function QuestionCard({
         </div>
       </div>
 
-      {/* Question text */}
-      <h2 className="text-xl font-semibold text-gray-900 mb-6">
-        {question.question_text}
-      </h2>
+      {/* Case scenario beside the question (above it on small screens), sticky while scrolling */}
+      <div className={cn(question.case_stem && 'md:grid md:grid-cols-2 md:gap-6')}>
+        {question.case_stem && (
+          <aside className="mb-6 md:mb-0 md:sticky md:top-20 self-start max-h-[60vh] overflow-y-auto p-4 bg-teal-50 border border-teal-200 rounded-xl">
+            <p className="text-sm font-medium text-teal-800 mb-2">🩺 Case Scenario</p>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">{question.case_stem}</p>
+          </aside>
+        )}
 
-      {/* Answer options based on question type */}
-      {question.type === 'identification' ? (
-        // Text input for identification questions
-        <div className="space-y-4">
-          <input
-            type="text"
-            value={inputValue}
-            onChange={(e) => handleInputChange(e.target.value)}
-            disabled={disabled}
-            placeholder="Type your answer here..."
-            className={cn(
-              'w-full px-4 py-3 rounded-xl border-2 transition-colors',
-              'focus:outline-none focus:ring-2 focus:ring-primary/50',
-              disabled ? 'bg-gray-50' : 'bg-white',
-              showResult && isCorrect && 'border-green-500 bg-green-50',
-              showResult && !isCorrect && selectedAnswer && 'border-red-500 bg-red-50',
-              !showResult && 'border-gray-200 focus:border-primary'
-            )}
-          />
-          
-          {/* Show correct answer when result is displayed */}
-          {showResult && !isCorrect && selectedAnswer && (
-            <div className="p-3 bg-green-50 border border-green-200 rounded-xl">
-              <p className="text-sm text-green-700">
-                <strong>Correct answer:</strong> {question.correct_answer}
-              </p>
-            </div>
-          )}
-        </div>
-      ) : (
-        // Option buttons for multiple choice and true/false
-        <div className="space-y-3">
-          {question.options?.map((option, index) => {
-            const isSelected = selectedAnswer === option;
-            const isCorrectOption = option === question.correct_answer;
-            
-            return (
-              <button
-                key={index}
-                onClick={() => !disabled && onAnswerSelect(option)}
+        <div>
+          {/* Question text */}
+          <h2 className="text-xl font-semibold text-gray-900 mb-6">
+            {question.question_text}
+          </h2>
+
+          {/* Answer options based on question type */}
+          {question.type === 'identification' ? (
+            // Text input for identification questions
+            <div className="space-y-4">
+              <input
+                type="text"
+                value={inputValue}
+                onChange={(e) => handleInputChange(e.target.value)}
                 disabled={disabled}
+                placeholder="Type your answer here..."
                 className={cn(
-                  'w-full px-4 py-3 rounded-xl border-2 text-left transition-all',
-                  'flex items-center gap-3',
-                  disabled ? 'cursor-default' : 'cursor-pointer hover:border-primary',
-                  // Default state
-                  !isSelected && !showResult && 'border-gray-200 bg-white',
-                  // Selected state (before results)
-                  isSelected && !showResult && 'border-primary bg-primary/5',
-                  // Correct answer (showing results)
-                  showResult && isCorrectOption && 'border-green-500 bg-green-50',
-                  // Wrong answer selected (showing results)
-                  showResult && isSelected && !isCorrectOption && 'border-red-500 bg-red-50'
+                  'w-full px-4 py-3 rounded-xl border-2 transition-colors',
+                  'focus:outline-none focus:ring-2 focus:ring-primary/50',
+                  disabled ? 'bg-gray-50' : 'bg-white',
+                  showResult && isCorrect && 'border-green-500 bg-green-50',
+                  showResult && !isCorrect && selectedAnswer && 'border-red-500 bg-red-50',
+                  !showResult && 'border-gray-200 focus:border-primary'
                 )}
-              >
-                {/* Option letter */}
-                <span
-                  className={cn(
-                    'w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium',
-                    !isSelected && !showResult && 'bg-gray-100 text-gray-600',
-                    isSelected && !showResult && 'bg-primary text-white',
-                    showResult && isCorrectOption && 'bg-green-500 text-white',
-                    showResult && isSelected && !isCorrectOption && 'bg-red-500 text-white'
+              />
+          
+              {/* Show correct answer when result is displayed */}
+              {showResult && !isCorrect && selectedAnswer && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-xl">
+                  <p className="text-sm text-green-700">
+                    <strong>Correct answer:</strong> {correctAnswer}
+                  </p>
+                  {acceptedAnswers.length > 0 && (
+                    <p className="text-sm text-green-700 mt-1">
+                      <strong>Also accepted:</strong> {acceptedAnswers.join(', ')}
+                    </p>
                   )}
-                >
-                  {String.fromCharCode(65 + index)}
-                </span>
+                </div>
+              )}
+
+              {showResult && isCloseMatch && (
+                <p className="text-sm text-gray-600">
+                  Accepted as <strong>{matchFreeText(selectedAnswer || '', [correctAnswer, ...acceptedAnswers])}</strong>
+                  {' '}(small typos are forgiven)
+                </p>
+              )}
+            </div>
+          ) : question.type === 'matching' ? (
+            <MatchingInput
+              prompts={question.prompts || []}
+              options={question.options || []}
+              value={selectedAnswer}
+              correctAnswer={correctAnswer}
+              onChange={onAnswerSelect}
+              showResult={showResult}
+              disabled={disabled}
+            />
+          ) : question.type === 'ordering' ? (
+            <OrderingInput
+              options={question.options || []}
+              value={selectedAnswer}
+              correctAnswer={correctAnswer}
+              onChange={onAnswerSelect}
+              showResult={showResult}
+              disabled={disabled}
+            />
+          ) : question.type === 'multi_select' ? (
+            <MultiSelectInput
+              options={question.options || []}
+              value={selectedAnswer}
+              correctAnswer={correctAnswer}
+              onChange={onAnswerSelect}
+              showResult={showResult}
+              disabled={disabled}
+            />
+          ) : (
+            // Option buttons for multiple choice, true/false and case vignettes
+            <div className="space-y-3">
+              {question.options?.map((option, index) => {
+                const isSelected = selectedAnswer === option;
+                const isCorrectOption = option === correctAnswer;
+            
+                return (
+                  <button
+                    key={index}
+                    onClick={() => !disabled && onAnswerSelect(option)}
+                    disabled={disabled}
+                    className={cn(
+                      'w-full px-4 py-3 rounded-xl border-2 text-left transition-all',
+                      'flex items-center gap-3',
+                      disabled ? 'cursor-default' : 'cursor-pointer hover:border-primary',
+                      // Default state
+                      !isSelected && !showResult && 'border-gray-200 bg-white',
+                      // Selected state (before results)
+                      isSelected && !showResult && 'border-primary bg-primary/5',
+                      // Correct answer (showing results)
+                      showResult && isCorrectOption && 'border-green-500 bg-green-50',
+                      // Wrong answer selected (showing results)
+                      showResult && isSelected && !isCorrectOption && 'border-red-500 bg-red-50'
+                    )}
+                  >
+                    {/* Option letter */}
+                    <span
+                      className={cn(
+                        'w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium',
+                        !isSelected && !showResult && 'bg-gray-100 text-gray-600',
+                        isSelected && !showResult && 'bg-primary text-white',
+                        showResult && isCorrectOption && 'bg-green-500 text-white',
+                        showResult && isSelected && !isCorrectOption && 'bg-red-500 text-white'
+                      )}
+                    >
+                      {String.fromCharCode(65 + index)}
+                    </span>
                 
-                {/* Option text */}
-                <span className="flex-1 text-gray-700">{option}</span>
+                    {/* Option text */}
+                    <span className="flex-1 text-gray-700">{option}</span>
                 
-                {/* Result indicator */}
-                {showResult && isCorrectOption && (
-                  <span className="text-green-600">✓</span>
-                )}
-                {showResult && isSelected && !isCorrectOption && (
-                  <span className="text-red-600">✗</span>
-                )}
-              </button>
-            );
-          })}
+                    {/* Result indicator */}
+                    {showResult && isCorrectOption && (
+                      <span className="text-green-600">✓</span>
+                    )}
+                    {showResult && isSelected && !isCorrectOption && (
+                      <span className="text-red-600">✗</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
-      )}
+      </div>
 
       {/* Explanation (shown after results) */}
       {showResult && question.explanation && (
         <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-xl">
           <p className="text-sm font-medium text-blue-800 mb-1">💡 Explanation</p>
           <p className="text-sm text-blue-700">{question.explanation}</p>
+          {question.source_file && (
+            <p className="text-xs text-blue-600 mt-2">📄 From {question.source_file}</p>
+          )}
+        </div>
+      )}
+
+      {/* Source check: was the answer found in the uploaded material? */}
+      {showResult && question.grounding_score !== null && question.grounding_score !== undefined && (
+        <div
+          className={cn(
+            'mt-4 p-4 rounded-xl border',
+            isUngrounded(question.grounding_score)
+              ? 'bg-amber-50 border-amber-200'
+              : 'bg-gray-50 border-gray-200'
+          )}
+        >
+          <p
+            className={cn(
+              'text-sm font-medium',
+              isUngrounded(question.grounding_score) ? 'text-amber-800' : 'text-gray-700'
+            )}
+          >
+            {isUngrounded(question.grounding_score)
+              ? `⚠️ Not clearly found in your material (${question.grounding_score}% match) - double-check this answer`
+              : `✅ Found in your material (${question.grounding_score}% match)`}
+          </p>
+          {question.grounding_passage && (
+            <blockquote className="mt-2 pl-3 border-l-2 border-gray-300 text-sm text-gray-600 italic">
+              {question.grounding_passage}
+            </blockquote>
+          )}
+          {question.source_location && <SourcePanel location={question.source_location} />}
         </div>
       )}
 
@@ -0,0 +1,128 @@
+// =============================================
+// Section Picker
+// =============================================
+// Lets the user pick which slides or pages to quiz on
+// Used in the configure page
+
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { ContentSegment, parseRangeInput, segmentUnit } from '@/lib/sections';
+import { SectionOutline } from '@/lib/types';
+
+interface SectionPickerProps {
+  segments: ContentSegment[];
+  sections?: SectionOutline[];
+  selected: string[];
+  onChange: (keys: string[]) => void;
+}
+
+export default function SectionPicker({
+  segments,
+  sections,
+  selected,
+  onChange,
+}: SectionPickerProps) {
+  const [rangeInput, setRangeInput] = useState('');
+  const [rangeError, setRangeError] = useState<string | null>(null);
+
+  const unit = segmentUnit(segments);
+
+  // Show the section title next to each slide/page when the parser found one
+  const getTitle = (segment: ContentSegment) =>
+    sections?.find(
+      (s) =>
+        s.location.kind === segment.kind &&
+        s.location.number === segment.number &&
+        (!segment.file || s.location.file === segment.file)
+    )?.title;
+
+  // Select everything in the typed range, e.g. "3-5, 8"
+  // With several files, the range applies to the slides/pages of each file
+  const applyRange = () => {
+    const numbered = segments.filter((s) => s.kind !== 'file');
+    const { numbers, error } = parseRangeInput(rangeInput, numbered.map((s) => s.number));
+    setRangeError(error || null);
+    if (!error) {
+      onChange(numbered.filter((s) => numbers.includes(s.number)).map((s) => s.key));
+    }
+  };
+
+  const toggle = (key: string) => {
+    onChange(
+      selected.includes(key)
+        ? selected.filter((k) => k !== key)
+        : segments.filter((s) => s.key === key || selected.includes(s.key)).map((s) => s.key)
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm">
+      {/* Range input */}
+      <div className="flex flex-col sm:flex-row gap-3 mb-2">
+        <input
+          type="text"
+          value={rangeInput}
+          onChange={(e) => setRangeInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && applyRange()}
+          placeholder="e.g. 3-5, 8"
+          className="flex-1 px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-primary focus:outline-none"
+        />
+        <button
+          onClick={applyRange}
+          className="px-4 py-2 rounded-xl font-medium bg-primary text-white hover:bg-primary/90 transition-all"
+        >
+          Apply Range
+        </button>
+      </div>
+      {rangeError && <p className="text-sm text-red-600 mb-2">{rangeError}</p>}
+
+      {/* Select all / clear */}
+      <div className="flex items-center justify-between text-sm text-gray-600 mt-4 mb-3">
+        <span>
+          {selected.length} of {segments.length} {unit} selected
+        </span>
+        <div className="flex gap-4">
+          <button
+            onClick={() => onChange(segments.map((s) => s.key))}
+            className="text-primary hover:underline"
+          >
+            Select all
+          </button>
+          <button onClick={() => onChange([])} className="text-primary hover:underline">
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {/* Slide/page checkboxes */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-72 overflow-y-auto pr-1">
+        {segments.map((segment) => {
+          const isChecked = selected.includes(segment.key);
+          const title = getTitle(segment);
+          return (
+            <label
+              key={segment.key}
+              className={cn(
+                'flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer transition-all',
+                isChecked ? 'border-primary bg-primary/5' : 'border-gray-200 hover:border-primary/50'
+              )}
+            >
+              <input
+                type="checkbox"
+                checked={isChecked}
+                onChange={() => toggle(segment.key)}
+                className="accent-primary"
+              />
+              <span className="text-sm text-gray-700 truncate">
+                <span className="font-medium">{segment.key}</span>
+                {title && <span className="text-gray-500"> · {title}</span>}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+// =============================================
+// Source Panel
+// =============================================
+// "See source" button that opens the slide or page a question came from,
+// with the supporting passage highlighted
+// Used in QuestionCard when results are shown
+
+'use client';
+
+import { useState } from 'react';
+import { QuestionSourceLocation } from '@/lib/types';
+
+interface SourcePanelProps {
+  location: QuestionSourceLocation;
+}
+
+export default function SourcePanel({ location }: SourcePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const label = location.kind === 'slide'
+    ? `Slide ${location.number}`
+    : location.kind === 'page'
+      ? `Page ${location.number}`
+      : 'Document';
+  const start = Math.max(0, Math.min(location.start, location.text.length));
+  const end = Math.max(start, Math.min(location.end, location.text.length));
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm font-medium text-primary hover:underline"
+      >
+        {isOpen ? '📕 Hide source' : '📖 See source'} · {label}
+        {location.file && ` · ${location.file}`}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 max-h-72 overflow-y-auto p-4 bg-white border border-gray-200 rounded-xl">
+          <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+            {location.text.slice(0, start)}
+            <mark className="bg-yellow-200 rounded px-0.5">{location.text.slice(start, end)}</mark>
+            {location.text.slice(end)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -38,9 +38,9 @@ export const APP_CONTENT = {
   
   // Upload section
   upload: {
-    title: "Drop your file here",
-    subtitle: "or browse to choose a file",
-    supportedFormats: [".pptx", ".ppt", ".pdf"],
+    title: "Drop your files here",
+    subtitle: "or browse to choose one or more files",
+    supportedFormats: [".pptx", ".ppt", ".pdf", ".docx", ".txt", ".md", ".zip"],
   },
   
   // Quiz type descriptions
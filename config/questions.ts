@@ -4,7 +4,15 @@
 // Define question types and their properties
 // Easy to add new question types here
 
-export type QuestionType = 'multiple_choice' | 'identification' | 'true_false' | 'mixed';
+export type QuestionType =
+  | 'multiple_choice'
+  | 'identification'
+  | 'true_false'
+  | 'case_vignette'
+  | 'matching'
+  | 'ordering'
+  | 'multi_select'
+  | 'mixed';
 
 export interface QuestionTypeConfig {
   id: QuestionType;
@@ -36,6 +44,32 @@ export const QUESTION_TYPES: Record<QuestionType, QuestionTypeConfig> = {
     icon: '⚖️',
     optionCount: 2,
   },
+  case_vignette: {
+    id: 'case_vignette',
+    name: 'Case Vignette',
+    description: 'Client scenarios with linked questions, like the boards',
+    icon: '🩺',
+    optionCount: 4,
+  },
+  matching: {
+    id: 'matching',
+    name: 'Matching',
+    description: 'Pair terms, theorists and assessments with their matches',
+    icon: '🔗',
+  },
+  ordering: {
+    id: 'ordering',
+    name: 'Ordering',
+    description: 'Put milestones, stages and steps in sequence',
+    icon: '🔢',
+  },
+  multi_select: {
+    id: 'multi_select',
+    name: 'Select All That Apply',
+    description: '5-6 options with 2-4 correct answers',
+    icon: '☑️',
+    optionCount: 6,
+  },
   mixed: {
     id: 'mixed',
     name: 'Mixed Mode',
@@ -44,6 +78,195 @@ export const QUESTION_TYPES: Record<QuestionType, QuestionTypeConfig> = {
   },
 };
 
+// =============================================
+// Mixed Quiz Blueprint
+// =============================================
+
+// Types a mixed quiz can be built from
+export type MixedQuestionType = Exclude<QuestionType, 'mixed'>;
+
+// Questions per type in a mixed quiz (see lib/blueprint.ts)
+export type MixedBlueprint = Partial<Record<MixedQuestionType, number>>;
+
+// Whether blueprint numbers are exact counts or percentages of the quiz length
+export type BlueprintUnit = 'count' | 'percent';
+
+// The board-style split used when nothing else is chosen
+export const DEFAULT_MIXED_BLUEPRINT: MixedBlueprint = {
+  multiple_choice: 50,
+  identification: 25,
+  true_false: 25,
+};
+
+// =============================================
+// Difficulty and Cognitive Levels
+// =============================================
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface DifficultyConfig {
+  id: Difficulty;
+  name: string;
+  description: string;
+  // Sent to the AI with the question prompt
+  promptGuide: string;
+}
+
+export const DIFFICULTY_LEVELS: Record<Difficulty, DifficultyConfig> = {
+  easy: {
+    id: 'easy',
+    name: 'Easy',
+    description: 'Key facts, clearly wrong distractors',
+    promptGuide: 'Ask about the main ideas. Distractors should be clearly wrong to a student who read the material.',
+  },
+  medium: {
+    id: 'medium',
+    name: 'Medium',
+    description: 'Board exam level',
+    promptGuide: 'Match real board exam items. Distractors should be plausible and drawn from related concepts in the material.',
+  },
+  hard: {
+    id: 'hard',
+    name: 'Hard',
+    description: 'Fine details, close distractors',
+    promptGuide: 'Test fine distinctions and details. Distractors should be close to the answer, such as related terms, neighbouring values or similar frames of reference.',
+  },
+};
+
+// Bloom's taxonomy levels used for board exam items
+export type CognitiveLevel = 'remember' | 'understand' | 'apply' | 'analyze';
+
+export interface CognitiveLevelConfig {
+  id: CognitiveLevel;
+  name: string;
+  // Sent to the AI with the question prompt
+  promptGuide: string;
+}
+
+export const COGNITIVE_LEVELS: Record<CognitiveLevel, CognitiveLevelConfig> = {
+  remember: {
+    id: 'remember',
+    name: 'Remember',
+    promptGuide: 'recall a fact, term, definition or list item',
+  },
+  understand: {
+    id: 'understand',
+    name: 'Understand',
+    promptGuide: 'explain, compare or classify a concept in other words',
+  },
+  apply: {
+    id: 'apply',
+    name: 'Apply',
+    promptGuide: 'use a concept in a short client scenario (e.g. choose an assessment or intervention)',
+  },
+  analyze: {
+    id: 'analyze',
+    name: 'Analyze',
+    promptGuide: 'break down a case, tell similar concepts apart, or pick the best or first action',
+  },
+};
+
+// Share of questions per level, in percent (adds up to 100)
+export type CognitiveMix = Record<CognitiveLevel, number>;
+
+export interface CognitiveMixPreset {
+  id: string;
+  name: string;
+  mix: CognitiveMix;
+}
+
+export const COGNITIVE_MIX_PRESETS: CognitiveMixPreset[] = [
+  { id: 'recall', name: 'Recall', mix: { remember: 60, understand: 40, apply: 0, analyze: 0 } },
+  { id: 'board', name: 'Board exam mix', mix: { remember: 25, understand: 25, apply: 30, analyze: 20 } },
+  { id: 'application', name: 'Application', mix: { remember: 10, understand: 20, apply: 40, analyze: 30 } },
+];
+
+// =============================================
+// Multiple-Response Scoring
+// =============================================
+
+export type MultiSelectScoring = 'all_or_nothing' | 'partial';
+
+export interface MultiSelectScoringConfig {
+  id: MultiSelectScoring;
+  name: string;
+  description: string;
+}
+
+export const MULTI_SELECT_SCORING: Record<MultiSelectScoring, MultiSelectScoringConfig> = {
+  all_or_nothing: {
+    id: 'all_or_nothing',
+    name: 'All or nothing',
+    description: 'A point only for exactly the right set, like the boards',
+  },
+  partial: {
+    id: 'partial',
+    name: 'Partial credit',
+    description: 'Each right pick earns credit, each wrong pick takes it away',
+  },
+};
+
+// =============================================
+// Quiz Mode
+// =============================================
+// Practice has no clock; an exam has a time limit the server enforces
+
+export type QuizMode = 'practice' | 'exam';
+
+export interface QuizModeConfig {
+  id: QuizMode;
+  name: string;
+  description: string;
+}
+
+export const QUIZ_MODES: Record<QuizMode, QuizModeConfig> = {
+  practice: {
+    id: 'practice',
+    name: 'Practice',
+    description: 'No time limit',
+  },
+  exam: {
+    id: 'exam',
+    name: 'Exam',
+    description: 'Timed, and submitted for you when time runs out',
+  },
+};
+
+// How an exam's time limit is set: for the whole quiz, or for each question
+// (each question then has its own clock and locks when it runs out)
+export type ExamTimeLimitUnit = 'total' | 'per_question';
+
+export interface ExamTimeLimitConfig {
+  id: ExamTimeLimitUnit;
+  name: string;
+  unitLabel: string;
+  secondsPerUnit: number;
+  min: number;
+  max: number;
+  default: number;
+}
+
+export const EXAM_TIME_LIMITS: Record<ExamTimeLimitUnit, ExamTimeLimitConfig> = {
+  total: {
+    id: 'total',
+    name: 'Total time',
+    unitLabel: 'minutes',
+    secondsPerUnit: 60,
+    min: 1,
+    max: 300,
+    default: 30,
+  },
+  per_question: {
+    id: 'per_question',
+    name: 'Time per question',
+    unitLabel: 'seconds per question',
+    secondsPerUnit: 1,
+    min: 10,
+    max: 600,
+    default: 80, // About the boards' pace (4 hours for 170 items)
+  },
+};
+
 // Quiz length options
 export const QUIZ_LENGTH_OPTIONS = [5, 10, 15, 20, 25, 30];
 
@@ -51,6 +274,11 @@ export const QUIZ_LENGTH_OPTIONS = [5, 10, 15, 20, 25, 30];
 export const DEFAULT_QUIZ_SETTINGS = {
   questionType: 'multiple_choice' as QuestionType,
   questionCount: 10,
+  difficulty: 'medium' as Difficulty,
+  cognitiveMix: COGNITIVE_MIX_PRESETS[1].mix,
+  multiSelectScoring: 'all_or_nothing' as MultiSelectScoring,
+  quizMode: 'practice' as QuizMode,
+  examTimeLimitUnit: 'per_question' as ExamTimeLimitUnit,
   shuffleQuestions: true,
   showExplanations: true,
 };
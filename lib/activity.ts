@@ -0,0 +1,112 @@
+// =============================================
+// Attempt Activity
+// =============================================
+// What happened on each question of an attempt, read from its event log:
+// time spent, visits, and how the answer changed
+// The quiz page records the events; the results page shows the summary
+
+import { AttemptEvent } from '@/lib/types';
+import { isCorrectAnswer } from '@/lib/grading';
+
+// Longest event log kept for one attempt
+export const MAX_ATTEMPT_EVENTS = 5000;
+
+const EVENT_TYPES: AttemptEvent['type'][] = ['enter', 'leave', 'hide', 'show', 'answer'];
+
+// Answered with one click; other answers are built in steps (typing, dragging, matching)
+const ONE_STEP_TYPES = ['multiple_choice', 'true_false', 'case_vignette'];
+
+export interface QuestionActivity {
+  seconds: number; // Total time the question was on screen
+  visits: number;
+  changes: number; // Times a given answer was replaced by a different one
+  rightToWrong: number;
+  wrongToRight: number;
+}
+
+/**
+ * Per-question activity, keyed by question id
+ * Questions never shown are left out
+ */
+export function summarizeActivity(
+  events: AttemptEvent[],
+  questions: { id: string; type: string; correct_answer: string; prompts?: string[] | null; accepted_answers?: string[] | null }[]
+): Record<string, QuestionActivity> {
+  const byId = new Map(questions.map((question) => [question.id, question]));
+  const activity: Record<string, QuestionActivity> = {};
+  const openedAt: Record<string, number> = {};
+  const lastAnswer: Record<string, string> = {};
+
+  const entry = (id: string) =>
+    (activity[id] = activity[id] || { seconds: 0, visits: 0, changes: 0, rightToWrong: 0, wrongToRight: 0 });
+
+  for (const event of events) {
+    const question = byId.get(event.question_id);
+    if (!question) continue;
+    const stats = entry(question.id);
+
+    if (event.type === 'enter' || event.type === 'show') {
+      if (event.type === 'enter') stats.visits++;
+      openedAt[question.id] = event.at;
+    } else if ((event.type === 'leave' || event.type === 'hide') && openedAt[question.id] !== undefined) {
+      stats.seconds += Math.max(0, event.at - openedAt[question.id]);
+      delete openedAt[question.id];
+    } else if (event.type === 'answer' && event.answer !== undefined) {
+      const previous = lastAnswer[question.id];
+      if (previous !== undefined && previous !== event.answer) {
+        stats.changes++;
+        const wasRight = isCorrectAnswer(question, previous);
+        const isRight = isCorrectAnswer(question, event.answer);
+        if (wasRight && !isRight) stats.rightToWrong++;
+        if (!wasRight && isRight) stats.wrongToRight++;
+      }
+      lastAnswer[question.id] = event.answer;
+    }
+  }
+
+  // A question still open when the log ends counts until the last event
+  const end = events.length > 0 ? events[events.length - 1].at : 0;
+  Object.entries(openedAt).forEach(([id, at]) => {
+    entry(id).seconds += Math.max(0, end - at);
+  });
+
+  Object.values(activity).forEach((stats) => {
+    stats.seconds = Math.round(stats.seconds);
+  });
+  return activity;
+}
+
+/**
+ * Add an event to the log
+ * An answer built in steps keeps only its latest step while the question
+ * stays open, so typing a word is one answer, not one per letter
+ */
+export function appendEvent(events: AttemptEvent[], event: AttemptEvent, questionType?: string): AttemptEvent[] {
+  const last = events[events.length - 1];
+  const isNextStep =
+    event.type === 'answer' &&
+    !ONE_STEP_TYPES.includes(questionType || '') &&
+    last?.type === 'answer' &&
+    last.question_id === event.question_id;
+  return [...(isNextStep ? events.slice(0, -1) : events), event];
+}
+
+/**
+ * Keep only well-formed events from a request body (at most MAX_ATTEMPT_EVENTS)
+ */
+export function sanitizeEvents(value: unknown): AttemptEvent[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (event): event is AttemptEvent =>
+        typeof event === 'object' &&
+        event !== null &&
+        EVENT_TYPES.includes(event.type) &&
+        typeof event.question_id === 'string' &&
+        typeof event.at === 'number' &&
+        Number.isFinite(event.at) &&
+        (event.answer === undefined || typeof event.answer === 'string')
+    )
+    .slice(-MAX_ATTEMPT_EVENTS)
+    .map(({ type, question_id, at, answer }) => (answer === undefined ? { type, question_id, at } : { type, question_id, at, answer }));
+}
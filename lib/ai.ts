@@ -0,0 +1,516 @@
+// =============================================
+// AI Question Generation - Shared Pieces
+// =============================================
+// The prompt, the response parser and the provider interface shared by
+// every AI client (groq.ts, gemini.ts); see providers.ts for the registry
+
+import {
+  QuestionType,
+  Difficulty,
+  CognitiveLevel,
+  DIFFICULTY_LEVELS,
+  COGNITIVE_LEVELS,
+} from '@/config/questions';
+import { generateId, shuffleArray } from '@/lib/utils';
+import { encodeAnswerList } from '@/lib/grading';
+
+// Generated question structure
+export interface GeneratedQuestion {
+  type: 'multiple_choice' | 'identification' | 'true_false' | 'case_vignette' | 'matching' | 'ordering' | 'multi_select';
+  question_text: string;
+  correct_answer: string; // Matching/ordering/multi-select: a JSON list (see lib/grading.ts)
+  options?: string[];
+  prompts?: string[]; // Matching: the left-hand items to pair with the options
+  accepted_answers?: string[]; // Identification: other ways to write the answer (abbreviations, alternate names)
+  explanation?: string;
+  source_reference?: string; // Where in the content this came from
+  source_file?: string; // Which uploaded file it came from (multi-file quizzes)
+  difficulty?: Difficulty;
+  cognitive_level?: CognitiveLevel;
+  case_stem?: string; // Case vignettes: the client scenario shared by linked questions
+  case_group?: string; // Case vignettes: same id for every question of one case
+}
+
+// What to ask for besides the question type and count
+export interface GenerationOptions {
+  sourceFiles: string[]; // Names of the files merged into the content, if more than one
+  difficulty?: Difficulty;
+  cognitiveLevels?: Partial<Record<CognitiveLevel, number>>; // Questions wanted per level
+}
+
+// An AI service that can write quiz questions
+export interface AIProvider {
+  id: string; // Used in the AI_PROVIDERS setting, e.g. "groq"
+  name: string; // Shown in logs and errors, e.g. "Groq"
+  model: string;
+  isConfigured: boolean;
+  generateQuestions: (
+    content: string,
+    type: QuestionType,
+    count: number,
+    options: GenerationOptions
+  ) => Promise<GeneratedQuestion[]>;
+  // Send one prompt (with SYSTEM_PROMPT) and return the raw reply
+  // Used to repair invalid questions; providers without it cannot repair
+  complete?: (prompt: string) => Promise<string>;
+}
+
+// How long one AI call may take before we give up on it
+export const AI_TIMEOUT_MS = 60 * 1000;
+
+// The model answered, but not with the JSON we asked for
+export class QuestionParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuestionParseError';
+  }
+}
+
+// System instructions sent with every question prompt
+export const SYSTEM_PROMPT = `You are an expert quiz maker specializing in OCCUPATIONAL THERAPY (OT) BOARD EXAM preparation.
+
+You are helping an OT student prepare for their licensure examination. Focus on:
+- OT theories, models, and frames of reference
+- Anatomy, physiology, and medical conditions relevant to OT
+- Assessment tools and evaluation methods
+- Intervention strategies and therapeutic techniques
+- Ethics, laws, and professional standards in OT practice
+- Research methods and evidence-based practice
+
+CRITICAL REQUIREMENTS FOR ACCURACY:
+- ONLY create questions that can be DIRECTLY answered from the provided study material
+- NEVER make up facts or information not in the source content
+- The correct answer MUST be explicitly stated or directly implied in the source material
+- Include the exact quote or reference from the source in your explanation
+- Questions should test recall and understanding of KEY CONCEPTS for OT practice
+- Avoid trick questions - be clear and straightforward
+- All distractors (wrong answers) should be plausible but clearly incorrect based on the source
+
+Always respond with valid JSON only, no markdown or extra text.`;
+
+/**
+ * Build the question prompt for a question type
+ * Optimized for OT BOARD EXAM preparation accuracy
+ */
+export function buildPrompt(
+  content: string,
+  type: QuestionType,
+  count: number,
+  { sourceFiles, difficulty, cognitiveLevels }: GenerationOptions
+): string {
+  // Multi-file content: ask the model to say which file each question came from
+  const fileInstruction = sourceFiles.length > 1
+    ? `
+
+The study material combines ${sourceFiles.length} files. Each file starts with a [File: name] line.
+Add a "source_file" field to EVERY question with the exact name of the file the answer comes from.
+Valid file names: ${sourceFiles.map((name) => `"${name}"`).join(', ')}`
+    : '';
+
+  // Slides/pages: ask where each answer is, so results can link back to it
+  const referenceInstruction = /^\[(Slide|Page) \d+\]$/m.test(content)
+    ? `
+7. Add a "source_reference" field to EVERY question naming the slide or page of the answer, as marked in the material (e.g. "Slide 3" or "Page 12")`
+    : '';
+
+  // Difficulty and Bloom's levels, when the user chose them
+  const levels = Object.entries(cognitiveLevels || {})
+    .filter(([, levelCount]) => levelCount && levelCount > 0) as [CognitiveLevel, number][];
+  const levelInstruction = difficulty || levels.length > 0
+    ? `
+
+QUESTION LEVEL:${difficulty ? `
+Difficulty: ${DIFFICULTY_LEVELS[difficulty].name.toUpperCase()} - ${DIFFICULTY_LEVELS[difficulty].promptGuide}` : ''}${levels.length > 0 ? `
+Write exactly this many questions at each thinking level (Bloom's taxonomy):
+${levels.map(([level, levelCount]) => `- ${levelCount} ${COGNITIVE_LEVELS[level].name.toUpperCase()}: ${COGNITIVE_LEVELS[level].promptGuide}`).join('\n')}` : ''}
+Add "difficulty" (easy, medium or hard) and "cognitive_level" (remember, understand, apply or analyze) fields to EVERY question.
+Scenario questions must still be answerable from the study material alone.`
+    : '';
+
+  const baseInstruction = `You are creating questions for an OCCUPATIONAL THERAPY (OT) BOARD EXAM review.
+
+STUDY MATERIAL TO BASE QUESTIONS ON:
+"""
+${content}
+"""
+
+CRITICAL ACCURACY REQUIREMENTS:
+1. ONLY ask about information EXPLICITLY stated in the study material above
+2. The correct answer MUST be found word-for-word or directly stated in the source
+3. In your explanation, QUOTE the exact part of the study material that contains the answer
+4. Do NOT add external knowledge - stick strictly to the provided content
+5. Make questions that test important concepts likely to appear on board exams
+6. Be precise with medical/professional terminology${referenceInstruction}${fileInstruction}${levelInstruction}
+
+Return ONLY valid JSON array, no markdown or extra text.`;
+
+  if (type === 'multiple_choice') {
+    return `${baseInstruction}
+
+Generate ${count} MULTIPLE CHOICE questions for board exam review.
+
+Requirements:
+- 4 answer options (only ONE correct answer)
+- Wrong options should be plausible but clearly incorrect based on the source
+- Focus on key definitions, principles, and important facts
+- Include the SOURCE QUOTE in the explanation
+
+Return JSON array:
+[
+  {
+    "type": "multiple_choice",
+    "question_text": "According to [source], what is...?",
+    "options": ["Option A", "Option B", "Option C", "Option D"],
+    "correct_answer": "Option A",
+    "explanation": "The correct answer is Option A. According to the study material: '[exact quote from source]'. This is important because..."
+  }
+]`;
+  }
+
+  if (type === 'identification') {
+    return `${baseInstruction}
+
+Generate ${count} IDENTIFICATION questions for board exam review. These test recall of specific terms and definitions.
+
+Requirements:
+- Ask for specific terms, names, or concepts
+- The answer must be explicitly stated in the source
+- Include the SOURCE QUOTE in the explanation
+- List other ways to write the answer that the source uses (abbreviation, full name, alternate name, a short form like "Sensory Integration" for "Sensory Integration Theory") in "accepted_answers", or [] if none
+
+Return JSON array:
+[
+  {
+    "type": "identification",
+    "question_text": "According to the study material, _____ is defined as the process of...",
+    "correct_answer": "exact term from source",
+    "accepted_answers": ["abbreviation or alternate name from source"],
+    "explanation": "The answer is 'exact term'. According to the study material: '[exact quote from source]'."
+  }
+]`;
+  }
+
+  if (type === 'case_vignette') {
+    // 2-3 linked questions per case
+    const caseCount = Math.max(1, Math.round(count / 2.5));
+    return `${baseInstruction}
+
+Generate ${caseCount} CLINICAL CASE VIGNETTES with ${count} linked questions in total (2-3 questions per case).
+
+Requirements:
+- Each case is a realistic OT client scenario of 2-3 short paragraphs: age, diagnosis, history, setting and current function
+- Build the scenario ONLY from conditions, assessments and interventions described in the study material
+- Each linked question is multiple choice with 4 options (only ONE correct answer)
+- Each question must be answerable from the scenario plus the study material, e.g. the best assessment, the first intervention, or the frame of reference to use
+- Include the SOURCE QUOTE in every explanation
+
+Return JSON array of cases:
+[
+  {
+    "type": "case_vignette",
+    "case_stem": "A 65-year-old client is admitted to inpatient rehabilitation two weeks after a left CVA...\n\nThe client lives with...",
+    "questions": [
+      {
+        "question_text": "Which assessment should the OT use first?",
+        "options": ["Option A", "Option B", "Option C", "Option D"],
+        "correct_answer": "Option A",
+        "explanation": "The correct answer is Option A. According to the study material: '[exact quote from source]'."
+      }
+    ]
+  }
+]`;
+  }
+
+  if (type === 'matching') {
+    return `${baseInstruction}
+
+Generate ${count} MATCHING questions for board exam review. Each question pairs 4-6 items with their matches,
+e.g. frames of reference with their theorists, assessments with what they measure, or terms with definitions.
+
+Requirements:
+- Every pair must be stated in the study material
+- Items and matches must each be unique within a question, with exactly one correct match per item
+- Keep matches short (a name, term or short phrase)
+- Include the SOURCE QUOTE in the explanation
+
+Return JSON array:
+[
+  {
+    "type": "matching",
+    "question_text": "Match each frame of reference to its theorist.",
+    "pairs": [
+      { "item": "Model of Human Occupation", "match": "Kielhofner" },
+      { "item": "Sensory Integration", "match": "Ayres" }
+    ],
+    "explanation": "According to the study material: '[exact quote from source]'."
+  }
+]`;
+  }
+
+  if (type === 'ordering') {
+    return `${baseInstruction}
+
+Generate ${count} ORDERING questions for board exam review. Each question lists 4-6 items that have one correct sequence,
+e.g. developmental milestones, stages of a model, or steps of a procedure.
+
+Requirements:
+- The sequence must be stated or clearly implied by the study material
+- List the items in the CORRECT order (the app shuffles them)
+- Include the SOURCE QUOTE in the explanation
+
+Return JSON array:
+[
+  {
+    "type": "ordering",
+    "question_text": "Put these stages of the OT process in order.",
+    "items": ["Evaluation", "Intervention planning", "Intervention", "Outcomes"],
+    "explanation": "According to the study material: '[exact quote from source]'."
+  }
+]`;
+  }
+
+  if (type === 'multi_select') {
+    return `${baseInstruction}
+
+Generate ${count} SELECT ALL THAT APPLY questions for board exam review.
+
+Requirements:
+- 5 or 6 answer options, of which 2, 3 or 4 are correct (vary the number between questions)
+- Every correct option must be stated in the study material; wrong options should be plausible but clearly incorrect based on the source
+- End each question with "(Select all that apply.)"
+- Include the SOURCE QUOTE in the explanation
+
+Return JSON array:
+[
+  {
+    "type": "multi_select",
+    "question_text": "Which of the following are components of the OT Practice Framework? (Select all that apply.)",
+    "options": ["Option A", "Option B", "Option C", "Option D", "Option E"],
+    "correct_answers": ["Option A", "Option C", "Option D"],
+    "explanation": "According to the study material: '[exact quote from source]'."
+  }
+]`;
+  }
+
+  if (type === 'true_false') {
+    return `${baseInstruction}
+
+Generate ${count} TRUE OR FALSE questions for board exam review.
+
+Requirements:
+- Statements must be clearly true OR false based on the source (no ambiguity)
+- For FALSE statements, change ONE key detail from the source
+- Include the SOURCE QUOTE in the explanation to prove the answer
+
+Return JSON array:
+[
+  {
+    "type": "true_false",
+    "question_text": "According to the study material, [statement].",
+    "options": ["True", "False"],
+    "correct_answer": "True",
+    "explanation": "This is TRUE. The study material states: '[exact quote from source]'."
+  }
+]`;
+  }
+
+  // Mixed mode - combination of all types
+  const mcCount = Math.floor(count * 0.5);  // 50% multiple choice (most common in boards)
+  const idCount = Math.floor(count * 0.25); // 25% identification
+  const tfCount = count - mcCount - idCount; // 25% true/false
+
+  return `${baseInstruction}
+
+Generate a MIX of question types for comprehensive board exam review:
+- ${mcCount} MULTIPLE CHOICE questions (most important for board exams)
+- ${idCount} IDENTIFICATION questions (test terminology recall)
+- ${tfCount} TRUE OR FALSE questions (test fact recognition)
+
+Requirements for ALL questions:
+- Include SOURCE QUOTE in every explanation
+- Focus on testable, clinically relevant OT content
+- Use proper OT terminology and language
+
+Return JSON array with mixed types:
+[
+  {
+    "type": "multiple_choice",
+    "question_text": "Question text...",
+    "options": ["A", "B", "C", "D"],
+    "correct_answer": "A",
+    "explanation": "Correct because: '[quote from source]'..."
+  },
+  {
+    "type": "identification",
+    "question_text": "Fill in: _____...",
+    "correct_answer": "term",
+    "accepted_answers": [],
+    "explanation": "The term is found in: '[quote from source]'..."
+  },
+  {
+    "type": "true_false",
+    "question_text": "Statement...",
+    "options": ["True", "False"],
+    "correct_answer": "True",
+    "explanation": "True because: '[quote from source]'..."
+  }
+]`;
+}
+
+/**
+ * Parse the AI response into question objects
+ */
+export function parseQuestionsFromResponse(
+  responseText: string,
+  type: QuestionType
+): GeneratedQuestion[] {
+  try {
+    // Clean the response - remove markdown code blocks if present
+    let cleanedText = responseText.trim();
+
+    // Remove ```json and ``` markers if present
+    if (cleanedText.startsWith('```json')) {
+      cleanedText = cleanedText.slice(7);
+    } else if (cleanedText.startsWith('```')) {
+      cleanedText = cleanedText.slice(3);
+    }
+    if (cleanedText.endsWith('```')) {
+      cleanedText = cleanedText.slice(0, -3);
+    }
+
+    cleanedText = cleanedText.trim();
+
+    // Parse JSON
+    const parsed = JSON.parse(cleanedText);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Response is not a JSON array');
+    }
+
+    // Keep the fields we use; lib/validation.ts checks them properly
+    return flattenCases(parsed.filter(isObject))
+      .map(expandListAnswer)
+      .map((q) => ({
+        type: (q.type || type) as GeneratedQuestion['type'],
+        question_text: textField(q.question_text),
+        correct_answer: textField(q.correct_answer),
+        options: Array.isArray(q.options) ? q.options.map(textField) : undefined,
+        prompts: Array.isArray(q.prompts) ? q.prompts.map(textField) : undefined,
+        accepted_answers: Array.isArray(q.accepted_answers) ? q.accepted_answers.map(textField) : undefined,
+        explanation: textField(q.explanation) || undefined,
+        source_reference: textField(q.source_reference) || undefined,
+        source_file: textField(q.source_file) || undefined,
+        difficulty: (textField(q.difficulty).toLowerCase() || undefined) as Difficulty | undefined,
+        cognitive_level: (textField(q.cognitive_level).toLowerCase() || undefined) as CognitiveLevel | undefined,
+        case_stem: textField(q.case_stem) || undefined,
+        case_group: textField(q.case_group) || undefined,
+      }));
+  } catch (error) {
+    console.error('Error parsing questions:', error);
+    console.error('Raw response:', responseText);
+    throw new QuestionParseError('Failed to parse generated questions');
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Turn each case ({ case_stem, questions: [...] }) into one question per
+ * linked question, all sharing the stem and a case_group id
+ */
+function flattenCases(items: Record<string, unknown>[]): Record<string, unknown>[] {
+  return items.flatMap((item) => {
+    if (!Array.isArray(item.questions)) return [item];
+
+    const { questions, ...caseFields } = item;
+    const caseGroup = generateId();
+    return questions.filter(isObject).map((question) => ({
+      ...caseFields,
+      ...question,
+      type: 'case_vignette',
+      case_stem: caseFields.case_stem,
+      case_group: caseGroup,
+    }));
+  });
+}
+
+/**
+ * Turn matching "pairs", ordering "items" and multi-select "correct_answers"
+ * into the stored form: prompts/options to show and a JSON list as the correct answer
+ * Questions already in that form (e.g. repaired ones) are left alone
+ */
+function expandListAnswer(item: Record<string, unknown>): Record<string, unknown> {
+  if (Array.isArray(item.pairs)) {
+    const pairs = item.pairs.filter(isObject);
+    const matches = pairs.map((pair) => textField(pair.match));
+    return {
+      ...item,
+      type: item.type || 'matching',
+      prompts: pairs.map((pair) => textField(pair.item)),
+      options: shuffleArray(matches),
+      correct_answer: encodeAnswerList(matches),
+    };
+  }
+
+  if (Array.isArray(item.items)) {
+    const items = item.items.map(textField);
+    // Shuffle until it is actually out of order
+    let options = shuffleArray(items);
+    for (let tries = 0; tries < 5 && items.length > 1 && options.join('\n') === items.join('\n'); tries++) {
+      options = shuffleArray(items);
+    }
+    return {
+      ...item,
+      type: item.type || 'ordering',
+      options,
+      correct_answer: encodeAnswerList(items),
+    };
+  }
+
+  // Multi-select: the correct options as a list
+  const answers = Array.isArray(item.correct_answers) ? item.correct_answers : item.correct_answer;
+  if (Array.isArray(answers)) {
+    return {
+      ...item,
+      type: item.type || 'multi_select',
+      correct_answer: encodeAnswerList(answers.map(textField)),
+    };
+  }
+
+  return item;
+}
+
+/**
+ * A JSON value as text ("" for missing values; numbers become strings)
+ */
+function textField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : String(value);
+}
+
+/**
+ * Build a prompt asking the model to fix one question that failed validation
+ */
+export function buildRepairPrompt(content: string, question: GeneratedQuestion, problems: string[]): string {
+  return `This quiz question was written from the study material below, but it has problems:
+${problems.map((problem) => `- ${problem}`).join('\n')}
+
+QUESTION:
+${JSON.stringify(question, null, 2)}
+
+STUDY MATERIAL:
+${content}
+
+Fix the problems while keeping the question about the same fact from the study material.
+Rules for "${question.type}" questions:
+- multiple_choice: exactly 4 different options, and "correct_answer" copied exactly from one of them
+- case_vignette: like multiple_choice, plus a "case_stem" with the client scenario the question is about
+- matching: "pairs" of { "item", "match" } instead of prompts/options/correct_answer (4-6 pairs, each item and match unique)
+- ordering: "items" in the correct order instead of options/correct_answer (4-6 items)
+- multi_select: 5-6 different options and "correct_answers", a list of the 2-4 correct options copied exactly
+- true_false: "options" is ["True", "False"] and "correct_answer" is "True" or "False"
+- identification: no options, "correct_answer" is the short term the blank asks for, and "accepted_answers" lists other ways the source writes it
+
+Return a JSON array containing only the corrected question, with the same fields.`;
+}
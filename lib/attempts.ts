@@ -0,0 +1,69 @@
+// =============================================
+// Submitting Attempts
+// =============================================
+// Grades answers and saves them as a submitted attempt
+// Used by the submit route, and by the draft route to submit an exam
+// whose time ran out while the quiz page was closed
+
+import { Attempt, Question, Quiz, createAttempt, updateDraftAttempt } from '@/lib/supabase';
+import { scoreAnswers } from '@/lib/grading';
+import { applyPacedAnswers, isPastDeadline } from '@/lib/exam';
+import { MultiSelectScoring } from '@/config/questions';
+import { AttemptEvent } from '@/lib/types';
+
+export interface SubmittedAttempt {
+  attempt: Attempt | null; // null if it could not be saved
+  timedOut: boolean; // Exam submitted after its deadline: the answers saved in time were graded
+}
+
+/**
+ * Grade answers and save the attempt
+ * A draft is marked submitted; without one a new attempt is created
+ * Exam drafts are timed by the server: past the deadline only the answers
+ * (and events) autosaved before it count, and the time spent stops at the deadline;
+ * timed per question, only the open question's answer can still change
+ */
+export async function submitAttempt(
+  quiz: Quiz,
+  questions: Question[],
+  answers: Record<string, string>,
+  events: AttemptEvent[],
+  timeSpent: number,
+  draft: Attempt | null
+): Promise<SubmittedAttempt> {
+  const timedOut = draft !== null && isPastDeadline(draft.deadline);
+  let finalAnswers = timedOut && draft ? draft.answers : answers;
+  if (draft?.question_deadline && !timedOut) {
+    const questionIds = questions.map((question) => question.id);
+    finalAnswers = applyPacedAnswers(draft, answers, draft.current_index, questionIds, quiz.question_time_limit || 0).answers;
+  }
+  const finalEvents = timedOut && draft ? draft.events : events;
+
+  let seconds = Math.max(0, Math.floor(timeSpent || 0));
+  if (draft?.deadline) {
+    const end = Math.min(Date.now(), new Date(draft.deadline).getTime());
+    seconds = Math.max(0, Math.round((end - new Date(draft.started_at).getTime()) / 1000));
+  }
+
+  const result = {
+    score: scoreAnswers(questions, finalAnswers, (quiz.multi_select_scoring || undefined) as MultiSelectScoring | undefined),
+    total: questions.length,
+    answers: finalAnswers,
+    events: finalEvents,
+    time_spent: seconds,
+    status: 'submitted',
+  };
+
+  const attempt = draft
+    ? await updateDraftAttempt(draft.id, { ...result, completed_at: new Date().toISOString() })
+    : await createAttempt({
+        ...result,
+        quiz_id: quiz.id,
+        current_index: 0,
+        mode: 'practice',
+        deadline: null,
+        question_deadline: null,
+      });
+
+  return { attempt, timedOut };
+}
@@ -0,0 +1,60 @@
+// =============================================
+// Mixed Quiz Blueprint
+// =============================================
+// A mixed quiz can be built from a blueprint: how many questions of each
+// type it has, given as exact counts or as percentages of the quiz length
+// Shared by the configure page (preview) and /api/generate
+
+import { MixedBlueprint, MixedQuestionType, BlueprintUnit, QUESTION_TYPES } from '@/config/questions';
+
+// Every type a blueprint can use, in the order they are listed
+export const MIXED_QUESTION_TYPES = Object.keys(QUESTION_TYPES).filter(
+  (type) => type !== 'mixed'
+) as MixedQuestionType[];
+
+/**
+ * Split a count in proportion to weights (largest remainder method),
+ * so the parts always add up to exactly the count
+ */
+export function splitByWeights(weights: number[], count: number): number[] {
+  const total = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (total === 0) return weights.map(() => 0);
+
+  const exact = weights.map((weight) => (count * Math.max(0, weight)) / total);
+  const parts = exact.map(Math.floor);
+  let left = count - parts.reduce((sum, n) => sum + n, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (left > 0) {
+        parts[index]++;
+        left--;
+      }
+    });
+  return parts;
+}
+
+/**
+ * Exact question counts per type
+ * @param count - Quiz length, used when the blueprint is in percent
+ */
+export function resolveBlueprint(shares: MixedBlueprint, unit: BlueprintUnit, count: number): MixedBlueprint {
+  const types = MIXED_QUESTION_TYPES.filter((type) => (shares[type] || 0) > 0);
+  const counts = unit === 'percent'
+    ? splitByWeights(types.map((type) => shares[type] || 0), count)
+    : types.map((type) => Math.floor(shares[type] || 0));
+
+  const blueprint: MixedBlueprint = {};
+  types.forEach((type, index) => {
+    if (counts[index] > 0) blueprint[type] = counts[index];
+  });
+  return blueprint;
+}
+
+/**
+ * Total number of questions in a blueprint
+ */
+export function blueprintTotal(blueprint: MixedBlueprint): number {
+  return Object.values(blueprint).reduce((sum, count) => sum + (count || 0), 0);
+}
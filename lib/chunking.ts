@@ -0,0 +1,174 @@
+// =============================================
+// Content Chunking
+// =============================================
+// Splits long content into chunks small enough for one AI call
+// Chunks break on [Slide N] / [Page N] boundaries and repeat the end of
+// the previous chunk, so a fact that runs across two slides is not lost
+
+import { splitContentSegments, segmentUnit } from '@/lib/sections';
+
+// Characters per chunk (about 2,000 tokens) and overlap between chunks
+const CHUNK_SIZE = 8000;
+const CHUNK_OVERLAP = 800;
+
+// A slide, page or paragraph - never split across chunks unless it is too long alone
+interface ContentUnit {
+  key: string;
+  file?: string;
+  text: string;
+}
+
+export interface ContentChunk {
+  /** Text sent to the AI, starting with the overlap from the previous chunk */
+  text: string;
+  /** Slides/pages/paragraphs that this chunk adds (not counting the overlap) */
+  keys: string[];
+  /** Characters of new text (not counting the overlap) */
+  length: number;
+}
+
+export interface ChunkedContent {
+  chunks: ContentChunk[];
+  /** Number of slides/pages/paragraphs in the whole content */
+  unitCount: number;
+  /** What the units are: "slides", "pages", "sections" or "paragraphs" */
+  unit: string;
+}
+
+/**
+ * Split content into overlapping chunks on slide/page boundaries
+ * Content without markers (DOCX, TXT, MD) is split on paragraphs instead
+ */
+export function chunkContent(content: string, maxLength: number = CHUNK_SIZE): ChunkedContent {
+  const segments = splitContentSegments(content);
+  const units: ContentUnit[] = segments.length > 0
+    ? segments.flatMap((segment) => splitLongText(segment.text, maxLength).map((text) => ({
+        key: segment.key,
+        file: segment.file,
+        text,
+      })))
+    : content
+        .split(/\n{2,}/)
+        .map((text) => text.trim())
+        .filter(Boolean)
+        .flatMap((text, index) => splitLongText(text, maxLength).map((piece) => ({
+          key: `Paragraph ${index + 1}`,
+          text: piece,
+        })));
+
+  // Greedily pack units into chunks
+  const groups: ContentUnit[][] = [];
+  let current: ContentUnit[] = [];
+  let currentLength = 0;
+
+  for (const unit of units) {
+    if (current.length > 0 && currentLength + unit.text.length > maxLength) {
+      groups.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(unit);
+    currentLength += unit.text.length + 2;
+  }
+  if (current.length > 0) groups.push(current);
+
+  const chunks = groups.map((group, index) => {
+    const previous = index > 0 ? groups[index - 1][groups[index - 1].length - 1] : null;
+    const overlap: ContentUnit[] = previous
+      ? [{ ...previous, text: tailText(previous.text, CHUNK_OVERLAP) }]
+      : [];
+
+    return {
+      text: renderUnits([...overlap, ...group]),
+      keys: Array.from(new Set(group.map((unit) => unit.key))),
+      length: group.reduce((total, unit) => total + unit.text.length, 0),
+    };
+  });
+
+  return {
+    chunks,
+    unitCount: new Set(units.map((unit) => unit.key)).size,
+    unit: segments.length > 0 ? segmentUnit(segments) : 'paragraphs',
+  };
+}
+
+/**
+ * Spread a question count across chunks in proportion to their size
+ * Uses the largest remainder method so the counts always add up exactly
+ */
+export function allocateQuestions(chunks: ContentChunk[], count: number): number[] {
+  const totalLength = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  if (totalLength === 0) return chunks.map(() => 0);
+
+  const exact = chunks.map((chunk) => (count * chunk.length) / totalLength);
+  const counts = exact.map(Math.floor);
+  let remaining = count - counts.reduce((total, n) => total + n, 0);
+
+  // Hand out what is left to the chunks with the biggest fractional parts
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of order) {
+    if (remaining <= 0) break;
+    counts[index]++;
+    remaining--;
+  }
+
+  return counts;
+}
+
+/**
+ * Join units back into text, adding a [File: name] line whenever the file changes
+ */
+function renderUnits(units: ContentUnit[]): string {
+  const parts: string[] = [];
+  let currentFile: string | undefined;
+
+  for (const unit of units) {
+    if (unit.file && unit.file !== currentFile) {
+      currentFile = unit.file;
+      parts.push(`[File: ${unit.file}]\n${unit.text}`);
+    } else {
+      parts.push(unit.text);
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Split text longer than maxLength on line breaks (or hard, for a single huge line)
+ */
+function splitLongText(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const line of text.split('\n')) {
+    for (let start = 0; start < Math.max(line.length, 1); start += maxLength) {
+      const part = line.slice(start, start + maxLength);
+      if (current && current.length + part.length + 1 > maxLength) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${part}` : part;
+    }
+  }
+  if (current.trim()) pieces.push(current);
+
+  return pieces;
+}
+
+/**
+ * The last few hundred characters of a text, starting at a line,
+ * sentence or word boundary when possible
+ */
+function tailText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const tail = text.slice(-maxLength);
+  const boundary = [/\n/, /[.!?]\s/, /\s/]
+    .map((pattern) => tail.match(pattern))
+    .find((match) => match?.index !== undefined);
+  return boundary ? tail.slice(boundary.index! + boundary[0].length).trimStart() : tail;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EXAM_GRACE_SECONDS,
+  PacedProgress,
+  applyPacedAnswers,
+  examDeadline,
+  examTimeLimitSeconds,
+  formatCountdown,
+  isPastDeadline,
+  questionTimeLimitSeconds,
+  secondsLeft,
+} from './exam';
+
+const start = new Date('2026-01-05T09:00:00.000Z');
+
+describe('examTimeLimitSeconds', () => {
+  it('reads a total limit in minutes', () => {
+    expect(examTimeLimitSeconds('total', 30, 10)).toBe(1800);
+    expect(questionTimeLimitSeconds('total', 30)).toBeNull();
+  });
+
+  it('adds up the time on each question', () => {
+    expect(examTimeLimitSeconds('per_question', 80, 10)).toBe(800);
+    expect(questionTimeLimitSeconds('per_question', 80)).toBe(80);
+  });
+});
+
+describe('deadlines', () => {
+  const deadline = examDeadline(600, start);
+
+  it('ends the time limit after the start', () => {
+    expect(deadline).toBe('2026-01-05T09:10:00.000Z');
+  });
+
+  it('counts down to zero and stays there', () => {
+    expect(secondsLeft(deadline, start.getTime())).toBe(600);
+    expect(secondsLeft(deadline, start.getTime() + 599_500)).toBe(1);
+    expect(secondsLeft(deadline, start.getTime() + 700_000)).toBe(0);
+  });
+
+  it('still takes answers during the grace period', () => {
+    const end = new Date(deadline).getTime();
+    expect(isPastDeadline(deadline, end)).toBe(false);
+    expect(isPastDeadline(deadline, end + EXAM_GRACE_SECONDS * 1000)).toBe(false);
+    expect(isPastDeadline(deadline, end + EXAM_GRACE_SECONDS * 1000 + 1)).toBe(true);
+  });
+
+  it('never expires without a deadline', () => {
+    expect(isPastDeadline(null)).toBe(false);
+  });
+});
+
+describe('applyPacedAnswers', () => {
+  const questionIds = ['q1', 'q2', 'q3'];
+  const progress: PacedProgress = {
+    answers: { q1: 'A' },
+    current_index: 1,
+    question_deadline: examDeadline(60, start),
+  };
+  const now = start.getTime() + 30_000;
+
+  it('changes the open question until its time runs out', () => {
+    const saved = applyPacedAnswers(progress, { q1: 'A', q2: 'B' }, 1, questionIds, 60, now);
+    expect(saved.answers).toEqual({ q1: 'A', q2: 'B' });
+
+    const late = start.getTime() + (60 + EXAM_GRACE_SECONDS + 1) * 1000;
+    expect(applyPacedAnswers(progress, { q1: 'A', q2: 'B' }, 1, questionIds, 60, late).answers).toEqual({ q1: 'A' });
+  });
+
+  it('keeps earlier questions locked', () => {
+    const saved = applyPacedAnswers(progress, { q1: 'C' }, 1, questionIds, 60, now);
+    expect(saved.answers).toEqual({ q1: 'A' });
+  });
+
+  it('moves one question forward and starts its clock', () => {
+    const saved = applyPacedAnswers(progress, { q1: 'A', q2: 'B', q3: 'C' }, 5, questionIds, 60, now);
+    expect(saved.current_index).toBe(2);
+    expect(saved.question_deadline).toBe(examDeadline(60, new Date(now)));
+    expect(saved.answers).toEqual({ q1: 'A', q2: 'B', q3: 'C' });
+  });
+
+  it('never moves back or past the last question', () => {
+    expect(applyPacedAnswers(progress, progress.answers, 0, questionIds, 60, now).current_index).toBe(1);
+
+    const last = { ...progress, current_index: 2 };
+    expect(applyPacedAnswers(last, progress.answers, 3, questionIds, 60, now)).toEqual(last);
+  });
+});
+
+describe('formatCountdown', () => {
+  it('shows minutes and seconds, and hours when needed', () => {
+    expect(formatCountdown(0)).toBe('0:00');
+    expect(formatCountdown(247)).toBe('4:07');
+    expect(formatCountdown(3909)).toBe('1:05:09');
+  });
+});
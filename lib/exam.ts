@@ -0,0 +1,106 @@
+// =============================================
+// Exam Timing
+// =============================================
+// Time limits and deadlines for exam-mode attempts
+// Shared by the configure page, the quiz page countdown and the attempt routes
+// An exam timed per question also has a clock on each question: questions are
+// answered in order, and each locks when its own time runs out
+
+import { EXAM_TIME_LIMITS, ExamTimeLimitUnit } from '@/config/questions';
+
+// Answers saved this long after the deadline still count (network delay)
+export const EXAM_GRACE_SECONDS = 10;
+
+/**
+ * A quiz's total time limit in seconds
+ * @param value - Minutes for a total limit, or seconds per question
+ * (the total is then every question's time added up)
+ */
+export function examTimeLimitSeconds(unit: ExamTimeLimitUnit, value: number, questionCount: number): number {
+  const seconds = value * EXAM_TIME_LIMITS[unit].secondsPerUnit;
+  return Math.round(unit === 'per_question' ? seconds * questionCount : seconds);
+}
+
+/**
+ * When an attempt started now must be submitted
+ */
+export function examDeadline(timeLimit: number, from: Date = new Date()): string {
+  return new Date(from.getTime() + timeLimit * 1000).toISOString();
+}
+
+/**
+ * Seconds left before a deadline (0 once it has passed)
+ */
+export function secondsLeft(deadline: string, now: number = Date.now()): number {
+  return Math.max(0, Math.ceil((new Date(deadline).getTime() - now) / 1000));
+}
+
+/**
+ * Whether answers can no longer be saved (the deadline plus the grace period has passed)
+ */
+export function isPastDeadline(deadline: string | null, now: number = Date.now()): boolean {
+  return deadline !== null && now > new Date(deadline).getTime() + EXAM_GRACE_SECONDS * 1000;
+}
+
+/**
+ * A quiz's time on each question in seconds, or null if only the total is timed
+ */
+export function questionTimeLimitSeconds(unit: ExamTimeLimitUnit, value: number): number | null {
+  return unit === 'per_question' ? Math.round(value * EXAM_TIME_LIMITS[unit].secondsPerUnit) : null;
+}
+
+// Where an exam timed per question stands
+export interface PacedProgress {
+  answers: Record<string, string>;
+  current_index: number; // The open question; earlier ones are locked
+  question_deadline: string | null; // When the open question locks
+}
+
+/**
+ * Apply saved answers to an exam timed per question
+ * Only the open question's answer can change, and only until its deadline;
+ * moving on goes one question forward (never back) and starts the next clock
+ * @param questionIds - The quiz's questions in order
+ * @param currentIndex - The question the page is on
+ */
+export function applyPacedAnswers(
+  progress: PacedProgress,
+  answers: Record<string, string>,
+  currentIndex: number,
+  questionIds: string[],
+  questionTimeLimit: number,
+  now: number = Date.now()
+): PacedProgress {
+  const next: PacedProgress = {
+    answers: { ...progress.answers },
+    current_index: progress.current_index,
+    question_deadline: progress.question_deadline,
+  };
+  const takeAnswer = (index: number) => {
+    const id = questionIds[index];
+    if (!id) return;
+    if (id in answers) next.answers[id] = answers[id];
+    else delete next.answers[id];
+  };
+
+  if (!isPastDeadline(progress.question_deadline, now)) takeAnswer(progress.current_index);
+
+  if (currentIndex > progress.current_index && progress.current_index < questionIds.length - 1) {
+    next.current_index = progress.current_index + 1;
+    next.question_deadline = examDeadline(questionTimeLimit, new Date(now));
+    takeAnswer(next.current_index);
+  }
+
+  return next;
+}
+
+/**
+ * A countdown as "1:05:09" or "4:07"
+ */
+export function formatCountdown(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+}
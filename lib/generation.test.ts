@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GeneratedQuestion } from './ai';
+import { generateQuizQuestions, interleave } from './generation';
+
+// A provider that writes at most one matching question per call, and any
+// number of every other type
+vi.mock('./providers', () => ({
+  generateWithFailover: vi.fn(async (content: string, type: GeneratedQuestion['type'], count: number) => ({
+    questions: Array.from({ length: type === 'matching' ? Math.min(count, 1) : count }, (_, index) =>
+      question(type, `${type} ${count} ${index}`)
+    ),
+    provider: { id: 'test', name: 'Test', model: 'test' },
+  })),
+}));
+vi.mock('./validation', () => ({
+  validateQuestions: async (questions: GeneratedQuestion[]) => ({ questions, issues: [] }),
+}));
+
+function question(type: GeneratedQuestion['type'], text: string, caseGroup?: string): GeneratedQuestion {
+  return { type, question_text: text, correct_answer: 'A', case_group: caseGroup };
+}
+
+describe('interleave', () => {
+  it('spreads the types through the quiz', () => {
+    const choices = ['1', '2', '3', '4'].map((text) => question('multiple_choice', text));
+    const statements = ['5', '6'].map((text) => question('true_false', text));
+    expect(interleave([choices, statements]).map((q) => q.question_text)).toEqual(['1', '5', '2', '3', '6', '4']);
+  });
+
+  it('keeps the questions of one case together', () => {
+    const choices = ['1', '2', '3', '4'].map((text) => question('multiple_choice', text));
+    const cases = [
+      question('case_vignette', 'a1', 'a'),
+      question('case_vignette', 'a2', 'a'),
+      question('case_vignette', 'a3', 'a'),
+      question('case_vignette', 'b1', 'b'),
+      question('case_vignette', 'b2', 'b'),
+    ];
+    const order = interleave([choices, cases]).map((q) => q.question_text);
+    expect(order).toEqual(['1', 'a1', 'a2', 'a3', '2', '3', 'b1', 'b2', '4']);
+  });
+});
+
+describe('generateQuizQuestions', () => {
+  const content = 'Sensory integration theory describes how the brain organizes input from the senses. '.repeat(20);
+
+  it('reports the questions a blueprint is short of after topping up', async () => {
+    const result = await generateQuizQuestions(content, 'mixed', 5, {
+      blueprint: { multiple_choice: 2, matching: 3 },
+    });
+    expect(result.questions).toHaveLength(4);
+    expect(result.shortfall).toEqual({ matching: 1 });
+  });
+
+  it('reports no shortfall when every question was written', async () => {
+    const result = await generateQuizQuestions(content, 'true_false', 3);
+    expect(result.questions).toHaveLength(3);
+    expect(result.shortfall).toEqual({});
+  });
+});
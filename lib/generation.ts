@@ -0,0 +1,316 @@
+// =============================================
+// Quiz Generation
+// =============================================
+// Generates a quiz from the whole document, not just its first pages:
+// the content is chunked (see chunking.ts), the question count is spread
+// across chunks, and the chunks are sent to the AI a few at a time
+// The Bloom's level mix is spread across chunks the same way
+// A mixed quiz with a blueprint (see blueprint.ts) gets one such pass per
+// question type, so it has the requested count of each; whatever could not
+// be written even after a top-up pass is reported as a shortfall
+
+import { AIProvider, GeneratedQuestion } from '@/lib/ai';
+import { generateWithFailover } from '@/lib/providers';
+import { chunkContent, allocateQuestions, ChunkedContent } from '@/lib/chunking';
+import { validateQuestions } from '@/lib/validation';
+import { splitByWeights } from '@/lib/blueprint';
+import { mapWithConcurrency } from '@/lib/utils';
+import { LIST_ANSWER_TYPES } from '@/lib/grading';
+import {
+  QuestionType,
+  Difficulty,
+  CognitiveLevel,
+  CognitiveMix,
+  MixedBlueprint,
+  MixedQuestionType,
+  COGNITIVE_LEVELS,
+} from '@/config/questions';
+import { QuizCoverage, ValidationIssue, ValidationReport } from '@/lib/types';
+
+// How many AI calls may run at the same time (keeps us under rate limits)
+const GENERATION_CONCURRENCY = 3;
+
+export interface QuizGenerationOptions {
+  sourceFiles?: string[];
+  difficulty?: Difficulty;
+  cognitiveMix?: CognitiveMix;
+  blueprint?: MixedBlueprint; // Mixed quizzes: exact questions per type
+}
+
+export interface GenerationResult {
+  questions: GeneratedQuestion[];
+  coverage: QuizCoverage;
+  validation: ValidationReport;
+  providers: AIProvider[]; // Every provider that wrote questions, in order of first use
+  shortfall: Partial<Record<QuestionType, number>>; // Questions asked for but not written, by type
+}
+
+// Shared by every pass over the content for one quiz
+interface GenerationState {
+  exhausted: Set<string>; // Rate-limited providers are not retried for every chunk
+  providers: AIProvider[];
+  issues: ValidationIssue[];
+  checked: number;
+  coveredChunks: Set<number>; // Chunks at least one question was drawn from
+}
+
+/**
+ * Generate questions across the whole content
+ * A failed chunk is skipped; the call only fails if every chunk fails
+ */
+export async function generateQuizQuestions(
+  content: string,
+  type: QuestionType,
+  count: number,
+  options: QuizGenerationOptions = {}
+): Promise<GenerationResult> {
+  const chunked = chunkContent(content);
+  const { chunks, unitCount, unit } = chunked;
+  const state: GenerationState = {
+    exhausted: new Set(),
+    providers: [],
+    issues: [],
+    checked: 0,
+    coveredChunks: new Set(),
+  };
+
+  let questions: GeneratedQuestion[];
+  let shortfall: GenerationResult['shortfall'] = {};
+  if (type === 'mixed' && options.blueprint) {
+    ({ questions, shortfall } = await generateBlueprint(chunked, options.blueprint, options, state));
+  } else {
+    questions = await generatePass(chunked, type, count, options, state);
+    if (questions.length < count) shortfall = { [type]: count - questions.length };
+  }
+
+  // Coverage: the parts of the source that at least one question was drawn from
+  const coveredKeys = new Set<string>();
+  let coveredLength = 0;
+  state.coveredChunks.forEach((index) => {
+    chunks[index].keys.forEach((key) => coveredKeys.add(key));
+    coveredLength += chunks[index].length;
+  });
+  const totalLength = chunks.reduce((total, chunk) => total + chunk.length, 0);
+
+  const countIssues = (action: ValidationIssue['action']) =>
+    state.issues.filter((issue) => issue.action === action).length;
+
+  return {
+    questions,
+    coverage: {
+      percent: totalLength > 0 ? Math.round((coveredLength / totalLength) * 100) : 0,
+      coveredSections: coveredKeys.size,
+      totalSections: unitCount,
+      unit,
+      chunkCount: chunks.length,
+    },
+    validation: {
+      checked: state.checked,
+      fixed: countIssues('fixed'),
+      repaired: countIssues('repaired'),
+      rejected: countIssues('rejected'),
+      issues: state.issues,
+    },
+    providers: state.providers,
+    shortfall,
+  };
+}
+
+/**
+ * One pass per question type in the blueprint, one type after another
+ * A type that comes back short (e.g. questions rejected by validation)
+ * gets one more pass for the missing questions; what is still missing
+ * after it is returned as the shortfall
+ */
+async function generateBlueprint(
+  chunked: ChunkedContent,
+  blueprint: MixedBlueprint,
+  options: QuizGenerationOptions,
+  state: GenerationState
+): Promise<Pick<GenerationResult, 'questions' | 'shortfall'>> {
+  const parts = (Object.entries(blueprint) as [MixedQuestionType, number][]).filter(([, count]) => count > 0);
+  const byType: GeneratedQuestion[][] = [];
+  const shortfall: GenerationResult['shortfall'] = {};
+
+  for (const [type, count] of parts) {
+    console.log(`Blueprint: ${count} ${type} questions`);
+    let questions = await generatePass(chunked, type, count, options, state);
+
+    if (questions.length < count) {
+      try {
+        const extra = await generatePass(chunked, type, count - questions.length, options, state);
+        questions = dedupeQuestions([...questions, ...extra]);
+      } catch (error) {
+        console.error(`Could not top up ${type} questions:`, error);
+      }
+    }
+    byType.push(questions.slice(0, count));
+    if (questions.length < count) shortfall[type] = count - questions.length;
+  }
+
+  return { questions: interleave(byType), shortfall };
+}
+
+/**
+ * Generate one type of question across the chunks
+ */
+async function generatePass(
+  { chunks }: ChunkedContent,
+  type: QuestionType,
+  count: number,
+  { sourceFiles = [], difficulty, cognitiveMix }: QuizGenerationOptions,
+  state: GenerationState
+): Promise<GeneratedQuestion[]> {
+  const counts = allocateQuestions(chunks, count);
+
+  // One level per question, handed out to the chunks in order
+  const levels = cognitiveMix ? spreadLevels(cognitiveMix, count) : [];
+  let nextLevel = 0;
+
+  // Chunks that got no questions (short ones in a small quiz) are not sent at all
+  const jobs = chunks
+    .map((chunk, index) => ({ chunk, index, count: counts[index] }))
+    .filter((job) => job.count > 0)
+    .map((job) => {
+      const jobLevels = levels.slice(nextLevel, nextLevel + job.count);
+      nextLevel += job.count;
+      return { ...job, levels: jobLevels };
+    });
+
+  console.log(`Generating ${count} questions from ${jobs.length} of ${chunks.length} chunks...`);
+
+  let firstError: unknown = null;
+  const results = await mapWithConcurrency(jobs, GENERATION_CONCURRENCY, async (job) => {
+    try {
+      const { questions, provider } = await generateWithFailover(
+        job.chunk.text,
+        type,
+        job.count,
+        { sourceFiles, difficulty, cognitiveLevels: countLevels(job.levels) },
+        state.exhausted
+      );
+      if (!state.providers.includes(provider)) state.providers.push(provider);
+
+      // The model sometimes returns more than asked for
+      const requested = questions.slice(0, job.count);
+      const validated = await validateQuestions(requested, type, job.chunk.text, provider);
+      state.checked += requested.length;
+      state.issues.push(...validated.issues);
+      if (validated.questions.length > 0) state.coveredChunks.add(job.index);
+      return labelLevels(validated.questions, job.levels, difficulty);
+    } catch (error) {
+      console.error(`Chunk ${job.index + 1} failed:`, error);
+      firstError = firstError || error;
+      return [];
+    }
+  });
+
+  if (results.every((questions) => questions.length === 0) && firstError) {
+    throw firstError;
+  }
+
+  // Merge in document order, dropping questions repeated from the overlap
+  return dedupeQuestions(results.flat());
+}
+
+/**
+ * Drop questions asked twice (chunks overlap, and top-up passes can repeat)
+ */
+function dedupeQuestions(questions: GeneratedQuestion[]): GeneratedQuestion[] {
+  const seen = new Set<string>();
+  return questions.filter((question) => {
+    // Case questions like "What should the OT do first?" repeat across cases,
+    // and matching/ordering/select-all instructions repeat across item lists
+    const items = question.prompts || (LIST_ANSWER_TYPES.includes(question.type) ? question.options : undefined);
+    const text = `${question.case_stem || ''} ${question.question_text} ${(items || []).join(' ')}`;
+    const key = text.toLowerCase().replace(/\W+/g, ' ').trim();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Merge the per-type lists so the types are spread evenly through the quiz
+ * (each list keeps its document order, and the questions of one case stay together)
+ */
+export function interleave(lists: GeneratedQuestion[][]): GeneratedQuestion[] {
+  return lists
+    .flatMap((list) => {
+      const cases = groupCases(list);
+      return cases.map((questions, index) => ({ questions, position: (index + 0.5) / cases.length }));
+    })
+    .sort((a, b) => a.position - b.position)
+    .flatMap(({ questions }) => questions);
+}
+
+/**
+ * Split a list into runs of questions on the same case (one run per
+ * question without a case)
+ */
+function groupCases(questions: GeneratedQuestion[]): GeneratedQuestion[][] {
+  const groups: GeneratedQuestion[][] = [];
+  questions.forEach((question, index) => {
+    const previous = questions[index - 1];
+    if (question.case_group && previous?.case_group === question.case_group) {
+      groups[groups.length - 1].push(question);
+    } else {
+      groups.push([question]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * One cognitive level per question, following the mix (in percent)
+ * Uses the largest remainder method, then interleaves the levels so
+ * every chunk gets a share of each
+ */
+function spreadLevels(mix: CognitiveMix, count: number): CognitiveLevel[] {
+  const levels = Object.keys(COGNITIVE_LEVELS) as CognitiveLevel[];
+  const remaining = splitByWeights(levels.map((level) => mix[level] || 0), count);
+  if (remaining.every((n) => n === 0)) return [];
+
+  const spread: CognitiveLevel[] = [];
+  while (spread.length < count) {
+    levels.forEach((level, index) => {
+      if (remaining[index] > 0) {
+        spread.push(level);
+        remaining[index]--;
+      }
+    });
+  }
+  return spread;
+}
+
+function countLevels(levels: CognitiveLevel[]): Partial<Record<CognitiveLevel, number>> | undefined {
+  if (levels.length === 0) return undefined;
+  const counts: Partial<Record<CognitiveLevel, number>> = {};
+  levels.forEach((level) => {
+    counts[level] = (counts[level] || 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * Fill in the level and difficulty of questions the AI did not label
+ * Unlabeled questions get the requested levels that no labeled question used
+ */
+function labelLevels(
+  questions: GeneratedQuestion[],
+  requested: CognitiveLevel[],
+  difficulty: Difficulty | undefined
+): GeneratedQuestion[] {
+  const unused = [...requested];
+  questions.forEach((question) => {
+    const index = question.cognitive_level ? unused.indexOf(question.cognitive_level) : -1;
+    if (index !== -1) unused.splice(index, 1);
+  });
+
+  return questions.map((question) => ({
+    ...question,
+    cognitive_level: question.cognitive_level || unused.shift(),
+    // The requested difficulty is what the question was written for
+    difficulty: difficulty || question.difficulty,
+  }));
+}
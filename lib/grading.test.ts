@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAnswerList, gradeAnswer, matchFreeText, scoreAnswers } from './grading';
+
+const matches = (answer: string, expected: string) => matchFreeText(answer, [expected]) !== null;
+
+describe('matchFreeText', () => {
+  it('ignores case, punctuation and articles', () => {
+    expect(matches('the Allen Cognitive Levels!', 'Allen cognitive levels')).toBe(true);
+  });
+
+  it('forgives a changed, missing, extra or swapped letter', () => {
+    expect(matches('proprioseption', 'proprioception')).toBe(true);
+    expect(matches('propriocepton', 'proprioception')).toBe(true);
+    expect(matches('propprioception', 'proprioception')).toBe(true);
+    expect(matches('proprioecption', 'proprioception')).toBe(true);
+  });
+
+  it('forgives more typos in longer words', () => {
+    expect(matches('proprioseptoin', 'proprioception')).toBe(true);
+    expect(matches('hemiplgeai', 'hemiplegia')).toBe(false);
+    expect(matches('ulnar', 'ulna')).toBe(false);
+  });
+
+  it('forgives a typo in each word of a longer answer', () => {
+    expect(matches('sensroy integratoin', 'sensory integration')).toBe(true);
+  });
+
+  it('keeps opposite and confusable terms apart', () => {
+    expect(matches('adduction', 'abduction')).toBe(false);
+    expect(matches('hypertonia', 'hypotonia')).toBe(false);
+    expect(matches('hyperreflexia', 'hyporeflexia')).toBe(false);
+    expect(matches('dysphasia', 'dysphagia')).toBe(false);
+    expect(matches('ileum', 'ilium')).toBe(false);
+    expect(matches('lateral epicondylosis', 'lateral epicondylitis')).toBe(false);
+    expect(matches('metatarsophalangeal', 'metacarpophalangeal')).toBe(false);
+  });
+
+  it('needs words with digits to match', () => {
+    expect(matches('C5 spinal cord injury', 'C6 spinal cord injury')).toBe(false);
+  });
+
+  it('accepts an answer without a generic ending, but not without its start', () => {
+    expect(matches('sensory integration', 'Sensory Integration Theory')).toBe(true);
+    expect(matches('Person-Environment-Occupation', 'Person-Environment-Occupation Model')).toBe(true);
+    expect(matches('human occupation', 'Model of Human Occupation')).toBe(false);
+  });
+
+  it('returns the accepted answer that matched', () => {
+    expect(matchFreeText('moho', ['Model of Human Occupation', 'MOHO'])).toBe('MOHO');
+    expect(matchFreeText('', ['MOHO'])).toBeNull();
+  });
+});
+
+describe('gradeAnswer', () => {
+  const selectAll = { type: 'multi_select', correct_answer: encodeAnswerList(['A', 'B', 'C']) };
+
+  it('grades select-all answers by the scoring mode', () => {
+    const answer = encodeAnswerList(['A', 'B', 'D']);
+    expect(gradeAnswer(selectAll, answer)).toBe(0);
+    expect(gradeAnswer(selectAll, answer, 'partial')).toBeCloseTo(1 / 3);
+    expect(gradeAnswer(selectAll, encodeAnswerList(['C', 'B', 'A']))).toBe(1);
+  });
+
+  it('gives ordering answers credit for each right position', () => {
+    const ordering = { type: 'ordering', correct_answer: encodeAnswerList(['1', '2', '3', '4']) };
+    expect(gradeAnswer(ordering, encodeAnswerList(['1', '2', '4', '3']))).toBe(0.5);
+  });
+
+  it('scores a set of answers', () => {
+    const questions = [
+      { id: 'q1', type: 'true_false', correct_answer: 'True' },
+      { id: 'q2', type: 'identification', correct_answer: 'proprioception', accepted_answers: [] },
+      { id: 'q3', ...selectAll },
+    ];
+    expect(scoreAnswers(questions, { q1: 'true', q2: 'proprioseption' })).toBe(2);
+  });
+});
@@ -0,0 +1,267 @@
+// =============================================
+// Answer Grading
+// =============================================
+// One place that decides how much credit an answer gets, used by the
+// submit route and by the results and analytics pages
+// Matching and ordering answers are lists, stored as JSON text so they
+// fit in attempts.answers like every other answer:
+// - Matching: the match chosen for each prompt, in prompt order
+// - Ordering: the items in the order the student put them
+// - Multi-select: the options picked, in any order
+// Typed identification answers are matched leniently (see matchFreeText)
+
+import { MultiSelectScoring } from '@/config/questions';
+
+// Question types whose answers are lists
+export const LIST_ANSWER_TYPES = ['matching', 'ordering', 'multi_select'];
+
+// Words left out when comparing typed answers (only articles: dropping
+// any other word can change the meaning)
+const FILLER_WORDS = new Set(['a', 'an', 'the']);
+
+// Generic words an answer may leave off its end ("sensory integration" for
+// "Sensory Integration Theory"); only at the end, so "human occupation" is
+// still not "Model of Human Occupation"
+const GENERIC_ENDINGS = ['theory', 'model', 'approach', 'framework', 'frame of reference'];
+
+// Typos forgiven in a word of at least this many letters...
+const TYPO_MIN_LETTERS = 5;
+// ...and a second one from this many
+const TWO_TYPOS_MIN_LETTERS = 12;
+// A typo never changes the first letters, so a swapped prefix (hyper/hypo,
+// ab/ad, dys/dis) is not taken for one
+const TYPO_PREFIX_LETTERS = 4;
+// Word parts that make a different (often opposite) term while looking like
+// a typo of each other
+const CONFUSABLE_PARTS: [string, string][] = [
+  ['hyper', 'hypo'],
+  ['abduct', 'adduct'],
+  ['phagia', 'phasia'], // Swallowing, language
+  ['ilium', 'ileum'],
+  ['itis', 'osis'],
+  ['carp', 'tars'],
+  ['ectomy', 'otomy'],
+];
+
+// The fields grading needs (database rows and app questions both have them)
+interface GradedQuestion {
+  type: string;
+  correct_answer: string;
+  prompts?: string[] | null;
+  accepted_answers?: string[] | null;
+}
+
+/**
+ * Credit for an answer, from 0 (wrong) to 1 (fully correct)
+ * Matching and ordering get partial credit for each pair or position
+ * that is right; multi-select follows the quiz's scoring mode;
+ * everything else is right or wrong
+ */
+export function gradeAnswer(
+  question: GradedQuestion,
+  answer: string | null | undefined,
+  multiSelectScoring: MultiSelectScoring = 'all_or_nothing'
+): number {
+  if (!answer) return 0;
+
+  if (question.type === 'multi_select') {
+    return gradeSelection(decodeAnswerList(question.correct_answer), decodeAnswerList(answer), multiSelectScoring);
+  }
+
+  if (LIST_ANSWER_TYPES.includes(question.type)) {
+    const expected = decodeAnswerList(question.correct_answer);
+    const given = decodeAnswerList(answer);
+    if (expected.length === 0) return 0;
+    const right = expected.filter((item, index) => sameAnswer(given[index], item)).length;
+    return right / expected.length;
+  }
+
+  if (question.type === 'identification') {
+    return matchFreeText(answer, [question.correct_answer, ...(question.accepted_answers || [])]) ? 1 : 0;
+  }
+
+  return sameAnswer(answer, question.correct_answer) ? 1 : 0;
+}
+
+/**
+ * Score for a set of answers, rounded to 2 decimals
+ */
+export function scoreAnswers(
+  questions: (GradedQuestion & { id: string })[],
+  answers: Record<string, string>,
+  multiSelectScoring?: MultiSelectScoring
+): number {
+  const score = questions.reduce(
+    (sum, question) => sum + gradeAnswer(question, answers[question.id], multiSelectScoring),
+    0
+  );
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * The accepted answer a typed answer matches, or null
+ * Ignores case, punctuation, articles and a generic ending ("theory"),
+ * and forgives small typos (see isTypoOf)
+ */
+export function matchFreeText(answer: string, accepted: string[]): string | null {
+  const given = normalizeFreeText(answer);
+  if (!given) return null;
+
+  for (const candidate of accepted) {
+    const expected = normalizeFreeText(candidate);
+    if (!expected) continue;
+    if (given === expected || isTypoOf(given, expected)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Lowercase words without punctuation, filler words or a generic ending
+ * (answers made only of those keep them)
+ */
+function normalizeFreeText(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  const meaningful = words.filter((word) => !FILLER_WORDS.has(word));
+  const kept = (meaningful.length > 0 ? meaningful : words).join(' ');
+
+  const ending = GENERIC_ENDINGS.find((generic) => kept.endsWith(` ${generic}`));
+  return ending ? kept.slice(0, -ending.length - 1) : kept;
+}
+
+/**
+ * Whether a normalized answer is the expected one with small typos: word by
+ * word, each differing word within its typo allowance (none under 5 letters,
+ * one from 5, two from 12), with the same first 4 letters and no confusable
+ * word part swapped; words with digits must match ("C5" is not "C6")
+ */
+function isTypoOf(given: string, expected: string): boolean {
+  const givenWords = given.split(' ');
+  const expectedWords = expected.split(' ');
+  if (givenWords.length !== expectedWords.length) return false;
+
+  return expectedWords.every((target, index) => {
+    const word = givenWords[index];
+    if (word === target) return true;
+
+    const allowed = target.length >= TWO_TYPOS_MIN_LETTERS ? 2 : target.length >= TYPO_MIN_LETTERS ? 1 : 0;
+    return (
+      allowed > 0 &&
+      !/\d/.test(word + target) &&
+      word.slice(0, TYPO_PREFIX_LETTERS) === target.slice(0, TYPO_PREFIX_LETTERS) &&
+      !swapsConfusablePart(word, target) &&
+      editDistance(word, target, allowed) <= allowed
+    );
+  });
+}
+
+/**
+ * Whether one word has a confusable part where the other has its pair
+ */
+function swapsConfusablePart(a: string, b: string): boolean {
+  return CONFUSABLE_PARTS.some(
+    ([x, y]) => (a.includes(x) && b.includes(y) && !b.includes(x)) || (a.includes(y) && b.includes(x) && !a.includes(x))
+  );
+}
+
+/**
+ * Letters added, dropped, changed or swapped with a neighbour to turn a into b
+ * (Damerau-Levenshtein); stops counting past max and returns max + 1
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], before[j - 2] + 1);
+      }
+    }
+    if (Math.min(...current) > max) return max + 1;
+    before = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * Multi-select: all or nothing needs exactly the right set; partial gives
+ * each right pick its share and takes one share off for each wrong pick
+ */
+function gradeSelection(expected: string[], given: string[], scoring: MultiSelectScoring): number {
+  if (expected.length === 0) return 0;
+  const wanted = new Set(expected.map((item) => item.toLowerCase().trim()));
+  const picked = new Set(given.map((item) => item.toLowerCase().trim()));
+  const right = Array.from(picked).filter((item) => wanted.has(item)).length;
+  const wrong = picked.size - right;
+
+  if (scoring === 'partial') {
+    return Math.max(0, (right - wrong) / wanted.size);
+  }
+  return right === wanted.size && wrong === 0 ? 1 : 0;
+}
+
+/**
+ * Whether an answer gets full credit
+ */
+export function isCorrectAnswer(
+  question: GradedQuestion,
+  answer: string | null | undefined
+): boolean {
+  return gradeAnswer(question, answer) === 1;
+}
+
+/**
+ * Store a list answer as text
+ */
+export function encodeAnswerList(items: string[]): string {
+  return JSON.stringify(items);
+}
+
+/**
+ * Read a list answer back ([] when it is not a list)
+ */
+export function decodeAnswerList(text: string | null | undefined): string[] {
+  if (!text) return [];
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed.map((item) => (typeof item === 'string' ? item : String(item ?? ''))) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * An answer as readable text, for flashcards and summaries
+ * e.g. "MOHO → Kielhofner" per line for matching, numbered lines for ordering,
+ * one bullet per pick for multi-select
+ */
+export function formatAnswer(
+  question: Pick<GradedQuestion, 'type' | 'prompts'>,
+  answer: string
+): string {
+  if (question.type === 'matching') {
+    const matches = decodeAnswerList(answer);
+    return (question.prompts || []).map((prompt, index) => `${prompt} → ${matches[index] || '—'}`).join('\n');
+  }
+  if (question.type === 'ordering') {
+    return decodeAnswerList(answer).map((item, index) => `${index + 1}. ${item}`).join('\n');
+  }
+  if (question.type === 'multi_select') {
+    return decodeAnswerList(answer).map((item) => `• ${item}`).join('\n');
+  }
+  return answer;
+}
+
+function sameAnswer(a: string | undefined, b: string): boolean {
+  return a !== undefined && a.toLowerCase().trim() === b.toLowerCase().trim();
+}
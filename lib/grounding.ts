@@ -0,0 +1,276 @@
+// =============================================
+// Grounding Check
+// =============================================
+// Verifies that each question's answer really comes from the uploaded
+// material. The AI is asked to quote the source in its explanation;
+// here we look for that quote (and the correct answer) in the document
+// with fuzzy word matching, so small rewording still counts
+// The matching passage also gives the question's source location
+// (file, slide/page and character span) for the "See source" panel
+
+import { GeneratedQuestion } from '@/lib/ai';
+import { splitContentSegments } from '@/lib/sections';
+import { QuestionSourceLocation, SourceLocation } from '@/lib/types';
+import { truncateText } from '@/lib/utils';
+
+// Questions scoring below this are flagged as "not found in your material"
+export const GROUNDED_THRESHOLD = 60;
+
+// Longest passage we keep to show next to a question
+const MAX_PASSAGE_LENGTH = 400;
+
+// Longer slides/pages are cut to the text around the answer
+const MAX_CONTEXT_LENGTH = 3000;
+const CONTEXT_AROUND = 1000;
+
+// Quotes shorter than this are usually terms, not citations
+const MIN_QUOTE_LENGTH = 15;
+
+// Words too common to count as evidence
+const IGNORED_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'from', 'into',
+  'its', 'his', 'her', 'their', 'which', 'what', 'who', 'has', 'have', 'had', 'not',
+  'but', 'can', 'may', 'all', 'any', 'than', 'then', 'also', 'such', 'been', 'being',
+]);
+
+// A slide, page or document, without its marker line
+interface SourceBlock {
+  location: SourceLocation;
+  text: string;
+}
+
+// A sentence or line of the source, or two in a row
+// so quotes that run across a line break still match
+interface Passage {
+  text: string;
+  normalized: string;
+  words: Set<string>;
+  block: number; // Index into SourceIndex.blocks
+  start: number; // Character span within the block text
+  end: number;
+}
+
+export interface SourceIndex {
+  blocks: SourceBlock[];
+  passages: Passage[];
+  normalized: string; // The whole source, normalized, for exact phrase checks
+}
+
+export interface GroundingResult {
+  score: number; // 0-100
+  passage: string | null; // Best-matching source text
+  location: QuestionSourceLocation | null;
+}
+
+/**
+ * Prepare the source text for grounding checks (do this once per quiz)
+ */
+export function buildSourceIndex(content: string): SourceIndex {
+  // Slides/pages/files are kept apart so a passage never spans two of them
+  const segments = splitContentSegments(content);
+  const blocks: SourceBlock[] = segments.length > 0
+    ? segments.map((segment) => ({
+        location: {
+          kind: segment.kind === 'file' ? 'section' : segment.kind,
+          number: segment.kind === 'file' ? 1 : segment.number,
+          file: segment.file,
+        },
+        text: segment.text.replace(/^\[(Slide|Page) \d+\]\n?/, ''),
+      }))
+    : [{ location: { kind: 'section', number: 1 }, text: content.trim() }];
+
+  // Single units first, so a pair only wins when it matches better
+  const spans = blocks.map((block) => splitUnits(block.text));
+  const singles = spans.flatMap((units, block) => units.map((unit) => ({ block, ...unit })));
+  const pairs = spans.flatMap((units, block) => units.slice(1).map((unit, index) => ({
+    block,
+    start: units[index].start,
+    end: unit.end,
+  })));
+
+  const passages = [...singles, ...pairs].map(({ block, start, end }) => {
+    const text = blocks[block].text.slice(start, end).replace(/\s+/g, ' ').trim();
+    const normalized = normalize(text);
+    return { text, normalized: ` ${normalized} `, words: new Set(contentWords(normalized)), block, start, end };
+  });
+
+  return {
+    blocks,
+    passages,
+    normalized: ` ${normalize(blocks.map((block) => block.text).join(' '))} `,
+  };
+}
+
+/**
+ * Score how well a question is supported by the source
+ * Combines the cited quote (or the question itself, if nothing was quoted)
+ * with whether the correct answer appears next to it
+ */
+export function checkGrounding(question: GeneratedQuestion, source: SourceIndex): GroundingResult {
+  const quotes = extractQuotes(question.explanation || '');
+  const evidence = quotes.length > 0 ? quotes : [question.question_text];
+  const preferred = referencedBlocks(question, source);
+
+  // Best passage for any of the quotes
+  let best: { passage: Passage | null; score: number } = { passage: null, score: 0 };
+  for (const quote of evidence) {
+    const match = findBestPassage(quote, source, preferred);
+    if (match.score > best.score) best = match;
+  }
+
+  // True/false answers are not words from the text, and matching/ordering
+  // answers are lists; for those the quoted evidence is the whole score
+  let score = best.score;
+  if (!['true_false', 'matching', 'ordering'].includes(question.type)) {
+    const answer = normalize(question.correct_answer);
+    let answerScore = 0;
+    if (answer && best.passage?.normalized.includes(` ${answer} `)) {
+      answerScore = 1;
+    } else if (answer && source.normalized.includes(` ${answer} `)) {
+      answerScore = 0.6; // Somewhere in the document, just not next to the quote
+    } else if (best.passage) {
+      answerScore = 0.5 * wordCoverage(contentWords(answer), best.passage.words);
+    }
+    score = 0.6 * best.score + 0.4 * answerScore;
+  }
+
+  return {
+    score: Math.round(score * 100),
+    passage: best.passage ? truncateText(best.passage.text, MAX_PASSAGE_LENGTH) : null,
+    location: best.passage ? buildLocation(best.passage, source) : null,
+  };
+}
+
+/**
+ * Whether a grounding score means "could not find this in the material"
+ */
+export function isUngrounded(score: number | null | undefined): boolean {
+  return score !== null && score !== undefined && score < GROUNDED_THRESHOLD;
+}
+
+/**
+ * Text in double, single or curly quotes
+ */
+function extractQuotes(text: string): string[] {
+  const quotes: string[] = [];
+  const pattern = /"([^"]+)"|“([^”]+)”|'([^']{15,})'|‘([^’]+)’/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const quote = (match[1] || match[2] || match[3] || match[4]).trim();
+    if (quote.length >= MIN_QUOTE_LENGTH) quotes.push(quote);
+  }
+  return quotes;
+}
+
+/**
+ * The passage sharing the most words with a quote
+ * Score 1 when the quote appears word for word; on a near tie,
+ * passages on the slide/page the AI cited win
+ */
+function findBestPassage(
+  quote: string,
+  source: SourceIndex,
+  preferred: Set<number>
+): { passage: Passage | null; score: number } {
+  const normalized = normalize(quote);
+  const words = contentWords(normalized);
+  if (words.length === 0) return { passage: null, score: 0 };
+
+  let best: { passage: Passage | null; score: number } = { passage: null, score: 0 };
+  let bestRank = 0;
+  for (const passage of source.passages) {
+    const score = passage.normalized.includes(` ${normalized} `) ? 1 : wordCoverage(words, passage.words);
+    const rank = score + (preferred.has(passage.block) ? 0.05 : 0);
+    if (rank > bestRank) {
+      best = { passage, score };
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+/**
+ * Blocks matching the slide/page the AI gave in source_reference
+ */
+function referencedBlocks(question: GeneratedQuestion, source: SourceIndex): Set<number> {
+  const match = question.source_reference?.match(/\b(slide|page)\s*(\d+)/i);
+  const blocks = new Set<number>();
+  if (!match) return blocks;
+
+  const kind = match[1].toLowerCase();
+  const number = parseInt(match[2], 10);
+  source.blocks.forEach((block, index) => {
+    const { location } = block;
+    if (location.kind !== kind || location.number !== number) return;
+    if (question.source_file && location.file && location.file !== question.source_file) return;
+    blocks.add(index);
+  });
+  return blocks;
+}
+
+/**
+ * Source location for a passage, with the slide/page text around it
+ */
+function buildLocation(passage: Passage, source: SourceIndex): QuestionSourceLocation {
+  const { location, text } = source.blocks[passage.block];
+  let from = 0;
+  let to = text.length;
+
+  // Cut long pages and documents down to the text around the answer, on line breaks
+  if (text.length > MAX_CONTEXT_LENGTH) {
+    from = Math.max(0, passage.start - CONTEXT_AROUND);
+    to = Math.min(text.length, passage.end + CONTEXT_AROUND);
+    const lineStart = text.lastIndexOf('\n', from);
+    const lineEnd = text.indexOf('\n', to);
+    if (from > 0 && lineStart !== -1 && from - lineStart < 300) from = lineStart + 1;
+    if (to < text.length && lineEnd !== -1 && lineEnd - to < 300) to = lineEnd;
+  }
+
+  return {
+    ...location,
+    text: text.slice(from, to),
+    start: passage.start - from,
+    end: passage.end - from,
+  };
+}
+
+/**
+ * Lines of a block split into sentences, with their character spans
+ */
+function splitUnits(text: string): { start: number; end: number }[] {
+  const units: { start: number; end: number }[] = [];
+  const pattern = /[^\n]+/g;
+  let line: RegExpExecArray | null;
+
+  while ((line = pattern.exec(text)) !== null) {
+    if (/^\s*(Image Text|Speaker Notes):\s*$/.test(line[0])) continue;
+
+    let cursor = 0;
+    for (const sentence of line[0].split(/(?<=[.!?])\s+/)) {
+      const offset = line[0].indexOf(sentence, cursor);
+      cursor = offset + sentence.length;
+      if (!sentence.trim()) continue;
+      units.push({ start: line.index + offset, end: line.index + cursor });
+    }
+  }
+  return units;
+}
+
+/**
+ * Share of the words found in a passage (0-1)
+ */
+function wordCoverage(words: string[], passageWords: Set<string>): number {
+  if (words.length === 0) return 0;
+  return words.filter((word) => passageWords.has(word)).length / words.length;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function contentWords(normalized: string): string[] {
+  return normalized.split(' ').filter((word) => word.length > 1 && !IGNORED_WORDS.has(word));
+}
@@ -0,0 +1,413 @@
+// =============================================
+// Offline Mock AI Provider
+// =============================================
+// Builds questions straight from the study material with no AI and no
+// network, so the whole app can be developed and tested offline
+// Select it with AI_PROVIDERS=mock. The same content always gives the
+// same questions:
+// - Identification: a key term is blanked out of a sentence (cloze)
+// - Multiple choice: the same cloze, with other terms from the document as distractors
+// - True or false: the sentence as written, or with its key term swapped
+// - Case vignette: multiple choice questions in pairs, with the sentences
+//   around them as the shared scenario
+// - Matching: a few clozes in a row, paired with their missing terms
+// - Ordering: a few sentences in a row, to put back in document order
+// - Select all that apply: a few sentences in a row, some with their key term swapped
+
+import { QuestionType } from '@/config/questions';
+import { AIProvider, GeneratedQuestion, GenerationOptions } from '@/lib/ai';
+import { encodeAnswerList } from '@/lib/grading';
+
+// Sentences shorter or longer than this make poor questions
+const MIN_SENTENCE_LENGTH = 40;
+const MAX_SENTENCE_LENGTH = 300;
+const MIN_SENTENCE_WORDS = 6;
+
+// Shortest word that can be a key term
+const MIN_TERM_LENGTH = 5;
+
+const BLANK = '_____';
+
+// Sentences per matching or ordering question
+const LIST_SIZE = 4;
+
+// Options per select-all question
+const SELECT_SIZE = 5;
+
+// Common words that are never worth asking about
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'along', 'among', 'another', 'around',
+  'because', 'before', 'being', 'below', 'between', 'both', 'cannot', 'could', 'doing',
+  'during', 'each', 'either', 'every', 'first', 'following', 'from', 'further', 'having',
+  'however', 'include', 'includes', 'including', 'into', 'itself', 'might', 'more', 'most',
+  'much', 'must', 'neither', 'other', 'others', 'over', 'same', 'second', 'should', 'since',
+  'some', 'such', 'than', 'that', 'their', 'them', 'themselves', 'then', 'there', 'these',
+  'they', 'this', 'those', 'three', 'through', 'together', 'under', 'until', 'upon', 'used',
+  'using', 'usually', 'very', 'what', 'when', 'where', 'whether', 'which', 'while', 'whose',
+  'with', 'within', 'without', 'would', 'your', 'also', 'often', 'called', 'known', 'based',
+  'example', 'slide', 'page', 'image', 'speaker', 'notes',
+]);
+
+// A sentence from the document with the term the question is about
+interface ClozeSentence {
+  sentence: string;
+  term: string;
+  file?: string;
+}
+
+/**
+ * Generate questions from content without calling an AI
+ * Same signature as the Groq and Gemini clients
+ */
+export async function generateQuestions(
+  content: string,
+  type: QuestionType,
+  count: number,
+  { sourceFiles, difficulty }: GenerationOptions = { sourceFiles: [] }
+): Promise<GeneratedQuestion[]> {
+  const sentences = extractClozeSentences(content);
+  if (sentences.length === 0) {
+    throw new Error('Not enough text to build questions from');
+  }
+
+  if (type === 'matching' || type === 'ordering' || type === 'multi_select') {
+    const listQuestions = type === 'multi_select'
+      ? buildSelectQuestions(sentences, count)
+      : buildListQuestions(sentences, type, count);
+    return listQuestions.map((question) => ({
+      ...question,
+      source_file: sourceFiles.length > 1 ? question.source_file : undefined,
+      difficulty,
+      cognitive_level: 'remember' as const,
+    }));
+  }
+
+  // Spread the picks evenly through the document
+  const picks = Math.min(count, sentences.length);
+  const indexes = Array.from({ length: picks }, (_, i) => Math.floor((i * sentences.length) / picks));
+  const chosen = indexes.map((index) => sentences[index]);
+  const terms = uniqueTerms(sentences);
+  const types = questionTypes(type, picks);
+
+  // Cloze questions are always recall; the difficulty is whatever was asked for
+  const questions = chosen.map((cloze, index) => ({
+    ...buildQuestion(cloze, types[index], terms),
+    source_file: sourceFiles.length > 1 ? cloze.file : undefined,
+    difficulty,
+    cognitive_level: 'remember' as const,
+  }));
+
+  return type === 'case_vignette' ? groupCases(questions, indexes, sentences) : questions;
+}
+
+// The mock as a provider for the registry in lib/providers.ts
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  name: 'Offline mock',
+  model: 'cloze-v1',
+  isConfigured: true, // Needs no API key
+  generateQuestions,
+};
+
+/**
+ * Split content into usable sentences, each with its key term
+ */
+function extractClozeSentences(content: string): ClozeSentence[] {
+  const result: ClozeSentence[] = [];
+  let file: string | undefined;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+
+    // Markers added by the parsers are not study material
+    const fileMatch = line.match(/^\[File: (.+)\]$/);
+    if (fileMatch) {
+      file = fileMatch[1];
+      continue;
+    }
+    if (/^\[(Slide|Page) \d+\]$/.test(line) || /^(Image Text|Speaker Notes):$/.test(line)) continue;
+
+    for (const sentence of line.split(/(?<=[.!?])\s+/)) {
+      const text = sentence.trim();
+      if (text.length < MIN_SENTENCE_LENGTH || text.length > MAX_SENTENCE_LENGTH) continue;
+      if (text.split(/\s+/).length < MIN_SENTENCE_WORDS) continue;
+
+      const term = pickTerm(text);
+      if (term) result.push({ sentence: text, term, file });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The word in a sentence most worth asking about
+ * Capitalized words and acronyms (names, models, assessments) win, then longer words
+ */
+function pickTerm(sentence: string): string | null {
+  const words = sentence
+    .split(/\s+/)
+    .slice(1) // The first word is capitalized anyway
+    .map((word) => word.replace(/^[^A-Za-z]+|[^A-Za-z]+$/g, ''))
+    .filter((word) => /^[A-Za-z][A-Za-z-]*$/.test(word))
+    .filter((word) => word.length >= MIN_TERM_LENGTH || /^[A-Z]{2,}$/.test(word))
+    .filter((word) => !STOPWORDS.has(word.toLowerCase()));
+
+  let best: string | null = null;
+  let bestScore = -1;
+  for (const word of words) {
+    const score = (/^[A-Z]/.test(word) ? 100 : 0) + word.length;
+    if (score > bestScore) {
+      best = word;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Every key term in the document, once each
+ */
+function uniqueTerms(sentences: ClozeSentence[]): string[] {
+  const seen = new Set<string>();
+  const terms: string[] = [];
+  for (const { term } of sentences) {
+    const key = term.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    terms.push(term);
+  }
+  return terms;
+}
+
+/**
+ * Question type for each question; mixed mode follows the AI prompt's split
+ * (50% multiple choice, 25% identification, 25% true or false), interleaved
+ */
+function questionTypes(type: QuestionType, count: number): GeneratedQuestion['type'][] {
+  if (type !== 'mixed') return Array(count).fill(type);
+
+  const remaining = {
+    multiple_choice: Math.floor(count * 0.5),
+    identification: Math.floor(count * 0.25),
+    true_false: 0,
+  };
+  remaining.true_false = count - remaining.multiple_choice - remaining.identification;
+
+  const order: (keyof typeof remaining)[] = ['multiple_choice', 'identification', 'true_false'];
+  const types: GeneratedQuestion['type'][] = [];
+  while (types.length < count) {
+    for (const next of order) {
+      if (remaining[next] > 0) {
+        types.push(next);
+        remaining[next]--;
+      }
+    }
+  }
+  return types;
+}
+
+/**
+ * Turn a sentence into a question of the given type
+ * Falls back to identification when the document has too few terms for distractors
+ */
+function buildQuestion(
+  { sentence, term }: ClozeSentence,
+  type: GeneratedQuestion['type'],
+  terms: string[]
+): GeneratedQuestion {
+  const cloze = replaceTerm(sentence, term, BLANK);
+  const distractors = pickDistractors(term, terms, sentence);
+  const explanation = `From the study material: "${sentence}"`;
+
+  if ((type === 'multiple_choice' || type === 'case_vignette') && distractors.length >= 3) {
+    const options = distractors.slice(0, 3);
+    options.splice(hash(sentence) % 4, 0, term);
+    return {
+      type,
+      question_text: `Which term best completes the statement? "${cloze}"`,
+      options,
+      correct_answer: term,
+      explanation,
+    };
+  }
+
+  if (type === 'true_false' && distractors.length >= 1) {
+    // About half the statements are made false by swapping the key term
+    const makeFalse = hash(sentence) % 2 === 1;
+    return {
+      type,
+      question_text: makeFalse ? replaceTerm(sentence, term, distractors[0]) : sentence,
+      options: ['True', 'False'],
+      correct_answer: makeFalse ? 'False' : 'True',
+      explanation: makeFalse ? `False. ${explanation}` : `True. ${explanation}`,
+    };
+  }
+
+  return {
+    type: 'identification',
+    question_text: cloze,
+    correct_answer: term,
+    explanation,
+  };
+}
+
+/**
+ * Matching or ordering questions, each from a run of sentences in a row
+ */
+function buildListQuestions(
+  sentences: ClozeSentence[],
+  type: 'matching' | 'ordering',
+  count: number
+): GeneratedQuestion[] {
+  const questions: GeneratedQuestion[] = [];
+  for (let run of spreadRuns(sentences, count, LIST_SIZE)) {
+    // Matching needs a different term for every sentence
+    if (type === 'matching') {
+      run = run.filter((cloze, index) => run.findIndex((other) => sameStem(other.term, cloze.term)) === index);
+      if (run.length < 3) continue;
+    }
+
+    const answer = run.map((cloze) => (type === 'matching' ? cloze.term : cloze.sentence));
+    // A fixed shuffle, turned by one if it came out in the right order
+    let options = [...answer].sort((a, b) => hash(a) - hash(b));
+    if (options.join('\n') === answer.join('\n')) options = [...options.slice(1), options[0]];
+
+    questions.push({
+      type,
+      question_text: type === 'matching'
+        ? 'Match each statement with the term that completes it.'
+        : 'Put these statements in the order they appear in the study material.',
+      prompts: type === 'matching' ? run.map((cloze) => replaceTerm(cloze.sentence, cloze.term, BLANK)) : undefined,
+      options,
+      correct_answer: encodeAnswerList(answer),
+      explanation: `From the study material: ${run.map((cloze) => `"${cloze.sentence}"`).join(' ')}`,
+      source_file: run[0].file,
+    });
+  }
+  return questions;
+}
+
+/**
+ * Select-all questions: which statements match the material?
+ * 2-4 sentences of each run stay as written; the rest get a key term swapped
+ */
+function buildSelectQuestions(sentences: ClozeSentence[], count: number): GeneratedQuestion[] {
+  const terms = uniqueTerms(sentences);
+  const questions: GeneratedQuestion[] = [];
+
+  for (const run of spreadRuns(sentences, count, SELECT_SIZE)) {
+    const trueCount = 2 + (hash(run[0].sentence) % 3);
+    const kept = [...run].sort((a, b) => hash(a.sentence) - hash(b.sentence)).slice(0, trueCount);
+
+    const options = run.map((cloze) => {
+      if (kept.includes(cloze)) return cloze.sentence;
+      const [swap] = pickDistractors(cloze.term, terms, cloze.sentence);
+      return swap ? replaceTerm(cloze.sentence, cloze.term, swap) : cloze.sentence;
+    });
+    const answers = options.filter((option) => run.some((cloze) => cloze.sentence === option));
+
+    questions.push({
+      type: 'multi_select',
+      question_text: 'Which of these statements match the study material? (Select all that apply.)',
+      options,
+      correct_answer: encodeAnswerList(answers),
+      explanation: `From the study material: ${answers.map((answer) => `"${answer}"`).join(' ')}`,
+      source_file: run[0].file,
+    });
+  }
+  return questions;
+}
+
+/**
+ * Runs of sentences in a row, spread evenly through the document without overlapping
+ */
+function spreadRuns(sentences: ClozeSentence[], count: number, size: number): ClozeSentence[][] {
+  const picks = Math.min(count, Math.floor(sentences.length / size));
+  if (picks === 0) {
+    throw new Error(`Need at least ${size} sentences to build these questions`);
+  }
+  return Array.from({ length: picks }, (_, i) => {
+    const start = Math.floor((i * sentences.length) / picks);
+    return sentences.slice(start, start + size);
+  });
+}
+
+/**
+ * Link questions in pairs, each pair sharing a scenario made of the
+ * sentences next to its questions (leaving out any that give an answer away)
+ */
+function groupCases(
+  questions: GeneratedQuestion[],
+  indexes: number[],
+  sentences: ClozeSentence[]
+): GeneratedQuestion[] {
+  return questions.map((question, index) => {
+    const first = index - (index % 2);
+    const members = indexes.slice(first, first + 2);
+    const answers = members.map((member) => sentences[member].term);
+
+    const context = Array.from(new Set(members.flatMap((member) => [member - 1, member + 1])))
+      .sort((a, b) => a - b)
+      .filter((neighbour) => neighbour >= 0 && neighbour < sentences.length && !members.includes(neighbour))
+      .map((neighbour) => sentences[neighbour].sentence)
+      .filter((sentence) => answers.every((term) => !mentions(sentence, term)));
+    const caseStem = context.length > 0
+      ? `Background from the study material:\n\n${context.join(' ')}`
+      : 'Use the study material to answer the linked questions.';
+
+    return { ...question, case_stem: caseStem, case_group: `mock-${hash(caseStem + answers.join()).toString(36)}` };
+  });
+}
+
+/**
+ * Other terms from the document that look like the answer
+ * Same capitalization first, then closest in length; ties broken by a hash
+ */
+function pickDistractors(term: string, terms: string[], sentence: string): string[] {
+  const capitalized = /^[A-Z]/.test(term);
+  return terms
+    // Skip the answer itself and other forms of it ("Occupation" / "Occupational")
+    .filter((candidate) => !sameStem(candidate, term))
+    .filter((candidate) => !mentions(sentence, candidate))
+    .map((candidate) => ({
+      candidate,
+      rank: (/^[A-Z]/.test(candidate) === capitalized ? 0 : 1000)
+        + Math.abs(candidate.length - term.length) * 10
+        + (hash(candidate + sentence) % 10),
+    }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ candidate }) => candidate);
+}
+
+function sameStem(a: string, b: string): boolean {
+  const [x, y] = [a.toLowerCase(), b.toLowerCase()];
+  return x.startsWith(y) || y.startsWith(x);
+}
+
+/**
+ * Replace the first whole-word occurrence of a term
+ */
+function replaceTerm(sentence: string, term: string, replacement: string): string {
+  return sentence.replace(new RegExp(`\\b${escapeRegExp(term)}\\b`), replacement);
+}
+
+function mentions(text: string, term: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i').test(text);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Small string hash (FNV-1a) for choices that look random but never change
+ */
+function hash(text: string): number {
+  let value = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 16777619);
+  }
+  return value >>> 0;
+}
@@ -0,0 +1,38 @@
+// =============================================
+// DOCX Test Fixtures
+// =============================================
+// Builds small Word documents in memory so parser tests need no binary files
+
+import JSZip from 'jszip';
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * A .docx whose body is the given WordprocessingML
+ */
+export async function makeDocx(bodyXml: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<w:document xmlns:w="${W_NAMESPACE}"><w:body>${bodyXml}<w:sectPr/></w:body></w:document>`
+  );
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+export const paragraph = (text: string, properties = '') =>
+  `<w:p w:rsidR="00A1"><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+export const heading = (text: string) => paragraph(text, '<w:pStyle w:val="Heading1"/>');
+
+export const bullet = (text: string) => paragraph(text, '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>');
+
+// An empty paragraph as Word writes it
+export const emptyParagraph = () => '<w:p w:rsidR="00B2" w:rsidRDefault="00B2"/>';
+
+export const table = (rows: string[][]) =>
+  '<w:tbl><w:tblPr/>' +
+  rows
+    .map((row) => `<w:tr>${row.map((cell) => `<w:tc><w:tcPr/>${paragraph(cell)}</w:tc>`).join('')}</w:tr>`)
+    .join('') +
+  '</w:tbl>';
@@ -0,0 +1,75 @@
+// =============================================
+// PPTX Test Fixtures
+// =============================================
+// Builds small presentations in memory so parser tests need no binary files
+
+import JSZip from 'jszip';
+
+const P_NAMESPACES =
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const REL_TYPES = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export interface FixtureSlide {
+  title: string;
+  bullets?: string[];
+  notes?: string[];
+}
+
+/**
+ * A .pptx with one slide part per entry (slide1.xml, slide2.xml, ...)
+ * @param order - Part numbers in the order the presentation shows them;
+ * leave out to write no presentation.xml at all
+ */
+export async function makePptx(slides: FixtureSlide[], order?: number[]): Promise<Buffer> {
+  const zip = new JSZip();
+
+  slides.forEach((slide, index) => {
+    const number = index + 1;
+    const body = slide.bullets
+      ? shape('<p:ph idx="1"/>', slide.bullets)
+      : '';
+    zip.file(`ppt/slides/slide${number}.xml`, slideXml(shape('<p:ph type="title"/>', [slide.title]) + body));
+
+    if (slide.notes) {
+      zip.file(`ppt/notesSlides/notesSlide${number}.xml`, slideXml(shape('<p:ph type="body" idx="1"/>', slide.notes), 'p:notes'));
+      zip.file(
+        `ppt/slides/_rels/slide${number}.xml.rels`,
+        relationships([`<Relationship Id="rId2" Type="${REL_TYPES}/notesSlide" Target="../notesSlides/notesSlide${number}.xml"/>`])
+      );
+    }
+  });
+
+  if (order) {
+    zip.file(
+      'ppt/presentation.xml',
+      `<p:presentation ${P_NAMESPACES}><p:sldIdLst>` +
+        order.map((number, index) => `<p:sldId id="${256 + index}" r:id="rId${100 + number}"/>`).join('') +
+        '</p:sldIdLst></p:presentation>'
+    );
+    zip.file(
+      'ppt/_rels/presentation.xml.rels',
+      relationships(slides.map((_, index) =>
+        `<Relationship Id="rId${101 + index}" Type="${REL_TYPES}/slide" Target="slides/slide${index + 1}.xml"/>`
+      ))
+    );
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function shape(placeholder: string, paragraphs: string[]): string {
+  return (
+    `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Shape"/><p:cNvSpPr/><p:nvPr>${placeholder}</p:nvPr></p:nvSpPr>` +
+    `<p:txBody>${paragraphs.map((text) => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`).join('')}</p:txBody></p:sp>`
+  );
+}
+
+function slideXml(shapes: string, root = 'p:sld'): string {
+  return `<${root} ${P_NAMESPACES}><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></${root}>`;
+}
+
+function relationships(items: string[]): string {
+  return `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items.join('')}</Relationships>`;
+}
@@ -0,0 +1,79 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { ArchiveTooLargeError, MAX_ENTRY_SIZE, openArchive } from './archive';
+import { parseDOCXBuffer } from './docx';
+import { parseZipBuffer } from './zip';
+
+const MB = 1024 * 1024;
+
+// Deflate shrinks a run of one letter about a thousandfold
+const bomb = (size: number) => Buffer.alloc(size, 'A');
+
+async function makeZip(files: Record<string, string | Buffer>): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+/**
+ * Make every size field in the archive claim a small file, as a crafted bomb would
+ */
+function understateSizes(zip: Uint8Array): Uint8Array {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  for (let i = 0; i < zip.length - 30; i++) {
+    const signature = view.getUint32(i, true);
+    if (signature === 0x04034b50 && view.getUint32(i + 22, true) > MB) view.setUint32(i + 22, 100, true);
+    if (signature === 0x02014b50 && view.getUint32(i + 24, true) > MB) view.setUint32(i + 24, 100, true);
+  }
+  return zip;
+}
+
+describe('openArchive', () => {
+  it('lists files and reads them as bytes or text', async () => {
+    const archive = await openArchive(await makeZip({ 'notes/a.txt': 'Occupation', 'b.txt': 'Volition' }));
+
+    expect(archive.paths.sort()).toEqual(['b.txt', 'notes/a.txt']);
+    expect(await archive.text('notes/a.txt')).toBe('Occupation');
+    expect(await archive.bytes('b.txt')).toEqual(new TextEncoder().encode('Volition'));
+    expect(await archive.text('missing.txt')).toBeNull();
+  });
+
+  it('stops inflating an entry past the entry limit, whatever size it claims', async () => {
+    const archive = await openArchive(understateSizes(await makeZip({ 'bomb.txt': bomb(MAX_ENTRY_SIZE + MB) })));
+
+    await expect(archive.bytes('bomb.txt')).rejects.toMatchObject({ name: 'ArchiveTooLargeError', limit: 'entry' });
+  }, 20_000);
+
+  it('caps the bytes read from one archive', async () => {
+    const part = bomb(45 * 1024);
+    const archive = await openArchive(
+      await makeZip({ '1.txt': part, '2.txt': part, '3.txt': part }),
+      { entrySize: 50 * 1024, archiveSize: 100 * 1024 }
+    );
+
+    expect((await archive.bytes('1.txt'))?.length).toBe(45 * 1024);
+    expect((await archive.bytes('2.txt'))?.length).toBe(45 * 1024);
+    const error = await archive.bytes('3.txt').catch((caught) => caught);
+    expect(error).toBeInstanceOf(ArchiveTooLargeError);
+    expect(error.limit).toBe('archive');
+  });
+});
+
+describe('ZIP-based uploads', () => {
+  it('skips an oversized file in a course ZIP and keeps the rest', async () => {
+    const result = await parseZipBuffer(Buffer.from(await makeZip({
+      'Week 1/Intro.txt': 'Occupational therapy basics.',
+      'Week 2/Bomb.txt': bomb(MAX_ENTRY_SIZE + MB),
+    })));
+
+    expect(result.documents.map((document) => document.filename)).toEqual(['Week 1/Intro.txt']);
+    expect(result.skipped).toEqual([{ path: 'Week 2/Bomb.txt', reason: 'File too large (over 50MB)' }]);
+  }, 20_000);
+
+  it('refuses a Word document whose XML unpacks past the limit', async () => {
+    const result = await parseDOCXBuffer(Buffer.from(await makeZip({ 'word/document.xml': bomb(MAX_ENTRY_SIZE + MB) })));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/too large when unpacked \(over 50MB\)/);
+  }, 20_000);
+});
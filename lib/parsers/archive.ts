@@ -0,0 +1,123 @@
+// =============================================
+// Archive Reading
+// =============================================
+// Reads files out of ZIP-based uploads (.zip, .docx, .pptx) with a cap on
+// how much they unpack to, so a small ZIP bomb cannot exhaust memory
+// (the upload size cap only limits compressed bytes)
+// Entries are inflated chunk by chunk and dropped once they pass the cap,
+// whatever size the archive claims; works on the server and in the browser
+
+import type JSZip from 'jszip';
+
+// Uncompressed bytes one file may unpack to (same as a single upload)...
+export const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+// ...and all files read from one archive together
+export const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;
+
+export interface ArchiveLimits {
+  entrySize: number;
+  archiveSize: number;
+}
+
+// A file in the archive unpacks past one of the limits
+export class ArchiveTooLargeError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly limit: 'entry' | 'archive',
+    size: number
+  ) {
+    const megabytes = Math.round(size / 1024 / 1024);
+    super(
+      limit === 'entry'
+        ? `${path} is too large when unpacked (over ${megabytes}MB)`
+        : `Archive is too large when unpacked (over ${megabytes}MB)`
+    );
+    this.name = 'ArchiveTooLargeError';
+  }
+}
+
+export interface ArchiveReader {
+  paths: string[]; // Every file in the archive (folders left out), in stored order
+  /** A file's bytes, or null if it is not in the archive */
+  bytes: (path: string) => Promise<Uint8Array | null>;
+  /** A file's UTF-8 text, or null if it is not in the archive */
+  text: (path: string) => Promise<string | null>;
+}
+
+// internalStream is part of JSZip's documented API, but missing from its type definitions
+interface StreamingZipObject {
+  internalStream: (type: 'uint8array') => JSZip.JSZipStreamHelper<Uint8Array>;
+}
+
+/**
+ * Open a ZIP archive for reading
+ * Reads throw ArchiveTooLargeError past the limits (MAX_ENTRY_SIZE and
+ * MAX_ARCHIVE_SIZE unless given)
+ */
+export async function openArchive(
+  data: ArrayBuffer | Uint8Array,
+  limits: ArchiveLimits = { entrySize: MAX_ENTRY_SIZE, archiveSize: MAX_ARCHIVE_SIZE }
+): Promise<ArchiveReader> {
+  // Dynamically import JSZip (for client-side usage)
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(data);
+  let totalSize = 0;
+
+  const bytes = async (path: string): Promise<Uint8Array | null> => {
+    const entry = zip.file(path);
+    if (!entry) return null;
+
+    const budget = Math.min(limits.entrySize, limits.archiveSize - totalSize);
+    const content = await inflateEntry(entry, budget);
+    if (!content) {
+      throw budget === limits.entrySize
+        ? new ArchiveTooLargeError(path, 'entry', limits.entrySize)
+        : new ArchiveTooLargeError(path, 'archive', limits.archiveSize);
+    }
+    totalSize += content.length;
+    return content;
+  };
+
+  return {
+    paths: Object.values(zip.files).filter((entry) => !entry.dir).map((entry) => entry.name),
+    bytes,
+    text: async (path) => {
+      const content = await bytes(path);
+      return content ? new TextDecoder().decode(content) : null;
+    },
+  };
+}
+
+/**
+ * Inflate an entry chunk by chunk, giving up (null) once it passes the limit
+ */
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Uint8Array | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const stream = (entry as unknown as StreamingZipObject).internalStream('uint8array');
+
+    stream
+      .on('data', (chunk) => {
+        size += chunk.length;
+        if (size > limit) {
+          stream.pause();
+          chunks.length = 0;
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => {
+        const content = new Uint8Array(size);
+        let offset = 0;
+        for (const chunk of chunks) {
+          content.set(chunk, offset);
+          offset += chunk.length;
+        }
+        resolve(content);
+      })
+      .resume();
+  });
+}
@@ -0,0 +1,179 @@
+// =============================================
+// Compound File Binary (OLE2) Reader
+// =============================================
+// Legacy Office files (.ppt, .doc, .xls) are "compound files":
+// a tiny FAT file system packed into one file
+// This reader only does what we need - find a stream by name and read it
+// Spec: [MS-CFB] Compound File Binary File Format
+
+// Every compound file starts with this signature
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// Special sector numbers in the FAT
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+
+// Directory entry object types
+const STREAM_OBJECT = 2;
+const ROOT_OBJECT = 5;
+
+// A stream or storage in the compound file's directory
+interface DirectoryEntry {
+  name: string;
+  type: number;
+  startSector: number;
+  size: number;
+}
+
+export interface CompoundFile {
+  /** Names of all streams in the file */
+  streamNames: string[];
+  /** Read a stream by name (case-insensitive), or null if it does not exist */
+  readStream: (name: string) => Uint8Array | null;
+}
+
+/**
+ * Check whether the bytes start with the compound file signature
+ */
+export function isCompoundFile(bytes: Uint8Array): boolean {
+  return bytes.length >= 512 && CFB_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Open a compound file and index its directory
+ * Throws if the file is not a valid compound file
+ */
+export function openCompoundFile(bytes: Uint8Array): CompoundFile {
+  if (!isCompoundFile(bytes)) {
+    throw new Error('Not a compound file (missing OLE signature)');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // Header fields
+  const sectorSize = 1 << view.getUint16(0x1e, true);
+  const miniSectorSize = 1 << view.getUint16(0x20, true);
+  const firstDirectorySector = view.getUint32(0x30, true);
+  const miniStreamCutoff = view.getUint32(0x38, true);
+  const firstMiniFatSector = view.getUint32(0x3c, true);
+  let nextDifatSector = view.getUint32(0x44, true);
+  const difatSectorCount = view.getUint32(0x48, true);
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+  const entriesPerSector = sectorSize / 4;
+
+  // 1. Collect the FAT sector list (DIFAT): 109 entries in the header, then a chain
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109; i++) {
+    const sector = view.getUint32(0x4c + i * 4, true);
+    if (sector !== FREE_SECTOR) fatSectors.push(sector);
+  }
+  for (let i = 0; i < difatSectorCount && nextDifatSector < END_OF_CHAIN; i++) {
+    const base = sectorOffset(nextDifatSector);
+    if (base + sectorSize > bytes.length) break;
+    for (let j = 0; j < entriesPerSector - 1; j++) {
+      const sector = view.getUint32(base + j * 4, true);
+      if (sector !== FREE_SECTOR) fatSectors.push(sector);
+    }
+    nextDifatSector = view.getUint32(base + (entriesPerSector - 1) * 4, true);
+  }
+
+  // 2. Load the FAT itself
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const base = sectorOffset(sector);
+    if (base + sectorSize > bytes.length) break;
+    for (let j = 0; j < entriesPerSector; j++) {
+      fat.push(view.getUint32(base + j * 4, true));
+    }
+  }
+
+  // Follow a sector chain through a FAT, guarding against loops in corrupt files
+  const followChain = (start: number, table: number[]): number[] => {
+    const chain: number[] = [];
+    const seen = new Set<number>();
+    let sector = start;
+    while (sector < END_OF_CHAIN && sector < table.length && !seen.has(sector)) {
+      seen.add(sector);
+      chain.push(sector);
+      sector = table[sector];
+    }
+    return chain;
+  };
+
+  // Read a chain of regular sectors into one buffer
+  const readSectors = (start: number, size?: number): Uint8Array => {
+    const chain = followChain(start, fat);
+    const out = new Uint8Array(chain.length * sectorSize);
+    chain.forEach((sector, i) => {
+      const base = sectorOffset(sector);
+      out.set(bytes.subarray(base, Math.min(base + sectorSize, bytes.length)), i * sectorSize);
+    });
+    return size === undefined ? out : out.subarray(0, Math.min(size, out.length));
+  };
+
+  // 3. Read the directory entries (128 bytes each)
+  const directoryBytes = readSectors(firstDirectorySector);
+  const directoryView = new DataView(directoryBytes.buffer, directoryBytes.byteOffset, directoryBytes.byteLength);
+  const entries: DirectoryEntry[] = [];
+
+  for (let offset = 0; offset + 128 <= directoryBytes.length; offset += 128) {
+    const nameLength = directoryView.getUint16(offset + 0x40, true);
+    const type = directoryView.getUint8(offset + 0x42);
+    if (type === 0 || nameLength < 2) continue;
+
+    // Name is UTF-16LE including the terminating null
+    let name = '';
+    for (let i = 0; i < nameLength / 2 - 1 && i < 32; i++) {
+      name += String.fromCharCode(directoryView.getUint16(offset + i * 2, true));
+    }
+
+    entries.push({
+      name,
+      type,
+      startSector: directoryView.getUint32(offset + 0x74, true),
+      size: directoryView.getUint32(offset + 0x78, true),
+    });
+  }
+
+  // 4. Small streams live in the "mini stream", which belongs to the root entry
+  const root = entries.find((entry) => entry.type === ROOT_OBJECT);
+  let miniStream: Uint8Array | null = null;
+  let miniFat: number[] | null = null;
+
+  const loadMiniStream = () => {
+    if (miniStream && miniFat) return;
+    miniStream = root ? readSectors(root.startSector, root.size) : new Uint8Array(0);
+    const miniFatBytes = readSectors(firstMiniFatSector);
+    const miniFatView = new DataView(miniFatBytes.buffer, miniFatBytes.byteOffset, miniFatBytes.byteLength);
+    miniFat = [];
+    for (let offset = 0; offset + 4 <= miniFatBytes.length; offset += 4) {
+      miniFat.push(miniFatView.getUint32(offset, true));
+    }
+  };
+
+  const readStream = (name: string): Uint8Array | null => {
+    const entry = entries.find(
+      (e) => e.type === STREAM_OBJECT && e.name.toLowerCase() === name.toLowerCase()
+    );
+    if (!entry) return null;
+
+    if (entry.size >= miniStreamCutoff) {
+      return readSectors(entry.startSector, entry.size);
+    }
+
+    loadMiniStream();
+    const chain = followChain(entry.startSector, miniFat!);
+    const out = new Uint8Array(chain.length * miniSectorSize);
+    chain.forEach((sector, i) => {
+      const base = sector * miniSectorSize;
+      out.set(miniStream!.subarray(base, base + miniSectorSize), i * miniSectorSize);
+    });
+    return out.subarray(0, Math.min(entry.size, out.length));
+  };
+
+  return {
+    streamNames: entries.filter((e) => e.type === STREAM_OBJECT).map((e) => e.name),
+    readStream,
+  };
+}
@@ -0,0 +1,42 @@
+// =============================================
+// Document Model Helpers
+// =============================================
+// Shared helpers for building the structured sections every parser
+// returns next to its flat content string
+
+import { ContentBlock } from '@/lib/types';
+
+// Characters that start a bullet line in extracted text
+const BULLET_PATTERN = /^\s*([•▪●◦○■□➢➤►–\-*]|\d{1,2}[.)])\s+/;
+
+/**
+ * Split plain text into paragraph and bullet blocks
+ * Blank lines end a paragraph; bullet lines become their own blocks
+ */
+export function textToBlocks(text: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flushParagraph();
+    } else if (BULLET_PATTERN.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'bullet', text: line.replace(BULLET_PATTERN, '') });
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseDOCXBuffer } from './docx';
+import { bullet, emptyParagraph, heading, makeDocx, paragraph, table } from './__fixtures__/docx';
+
+describe('parseDOCXBuffer', () => {
+  it('reads headings, paragraphs and list items in order', async () => {
+    const result = await parseDOCXBuffer(await makeDocx(
+      heading('Frames of Reference') + paragraph('Guide evaluation &amp; intervention.') + bullet('Biomechanical')
+    ));
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe('Frames of Reference\nGuide evaluation & intervention.\n• Biomechanical');
+    expect(result.metadata).toMatchObject({ paragraphCount: 2, headingCount: 1 });
+    expect(result.sections).toEqual([
+      {
+        title: 'Frames of Reference',
+        blocks: [
+          { type: 'paragraph', text: 'Guide evaluation & intervention.' },
+          { type: 'bullet', text: 'Biomechanical' },
+        ],
+        location: { kind: 'section', number: 1 },
+      },
+    ]);
+  });
+
+  it('keeps a table after an empty paragraph', async () => {
+    const result = await parseDOCXBuffer(await makeDocx(
+      paragraph('Models and their authors:') +
+        emptyParagraph() +
+        table([['Model', 'Author'], ['MOHO', 'Kielhofner']]) +
+        emptyParagraph() +
+        paragraph('Review both before the exam.')
+    ));
+
+    expect(result.content).toBe('Models and their authors:\nModel | Author\nMOHO | Kielhofner\nReview both before the exam.');
+    expect(result.metadata?.paragraphCount).toBe(3);
+    expect(result.sections?.[0].blocks[1]).toEqual({
+      type: 'table',
+      text: 'Model | Author\nMOHO | Kielhofner',
+      rows: [['Model', 'Author'], ['MOHO', 'Kielhofner']],
+    });
+  });
+
+  it('fails on a document without text', async () => {
+    const result = await parseDOCXBuffer(await makeDocx(emptyParagraph()));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No text content/);
+  });
+});
@@ -0,0 +1,189 @@
+// =============================================
+// Word (DOCX) Parser
+// =============================================
+// Extracts text content from Word documents
+// Uses JSZip to read the DOCX (which is a ZIP file with XML inside)
+
+import { ParseResult } from './index';
+import { decodeXmlEntities } from './xml';
+import { openArchive } from './archive';
+import { DocumentSection } from '@/lib/types';
+
+// A paragraph, list item, heading or table from word/document.xml
+interface DocxBlock {
+  kind: 'heading' | 'paragraph' | 'bullet' | 'table';
+  text: string;
+  rows?: string[][];
+}
+
+/**
+ * Parse a Word document and extract all text content
+ * The body text lives in word/document.xml
+ */
+export async function parseDOCX(file: File | Blob): Promise<ParseResult> {
+  try {
+    // Read the file and load the ZIP contents (unpacked sizes are capped)
+    const archive = await openArchive(await file.arrayBuffer());
+
+    const documentXml = await archive.text('word/document.xml');
+    if (!documentXml) {
+      return {
+        success: false,
+        content: '',
+        error: 'Not a valid Word document (word/document.xml is missing)',
+      };
+    }
+
+    const docBlocks = extractBlocksFromDocumentXml(documentXml);
+
+    // Put a blank line before each heading so sections stand out in the prompt
+    const lines: string[] = [];
+    for (const block of docBlocks) {
+      if (block.kind === 'heading' && lines.length > 0) {
+        lines.push('');
+      }
+      lines.push(block.kind === 'bullet' ? `• ${block.text}` : block.text);
+    }
+    const fullContent = lines.join('\n').trim();
+
+    if (!fullContent) {
+      return {
+        success: false,
+        content: '',
+        error: 'No text content found in the Word document',
+      };
+    }
+
+    // The document title is stored separately in the core properties
+    const coreXml = await archive.text('docProps/core.xml');
+    const title = coreXml?.match(/<dc:title>([^<]*)<\/dc:title>/)?.[1]?.trim();
+
+    return {
+      success: true,
+      content: fullContent,
+      sections: buildSections(docBlocks),
+      metadata: {
+        paragraphCount: docBlocks.filter((b) => b.kind !== 'heading').length,
+        headingCount: docBlocks.filter((b) => b.kind === 'heading').length,
+        title: title ? decodeXmlEntities(title) : undefined,
+      },
+    };
+  } catch (error) {
+    console.error('Error parsing DOCX:', error);
+    return {
+      success: false,
+      content: '',
+      error: `Failed to parse Word document: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Walk the document body in order, collecting paragraphs and tables
+ */
+function extractBlocksFromDocumentXml(xml: string): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+
+  // Match either a whole table or a single paragraph, in document order
+  // An empty paragraph is self-closing (<w:p w:rsidR="..."/>) and is matched
+  // on its own, so it cannot run on to the next </w:p> and swallow a table
+  const blockRegex = /<w:tbl>[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p[ >][\s\S]*?<\/w:p>/g;
+  let match;
+
+  while ((match = blockRegex.exec(xml)) !== null) {
+    const block = match[0];
+
+    if (block.startsWith('<w:tbl>')) {
+      const rows: string[][] = [];
+      for (const row of block.match(/<w:tr[ >][\s\S]*?<\/w:tr>/g) || []) {
+        const cells = (row.match(/<w:tc(?:\s[^>]*)?>[\s\S]*?<\/w:tc>/g) || [])
+          .map((cell) => extractRunText(cell).replace(/\s+/g, ' ').trim());
+        if (cells.some(Boolean)) rows.push(cells);
+      }
+      if (rows.length > 0) {
+        // Flattened to one "cell | cell | cell" line per row
+        blocks.push({ kind: 'table', text: rows.map((row) => row.join(' | ')).join('\n'), rows });
+      }
+      continue;
+    }
+
+    const text = extractRunText(block).trim();
+    if (!text) continue;
+
+    // Headings use the built-in Heading/Title styles or an outline level
+    const isHeading =
+      /<w:pStyle w:val="(Heading\d|Title)"/i.test(block) ||
+      /<w:outlineLvl w:val="\d"/.test(block);
+
+    // List items carry numbering properties
+    const isListItem = /<w:numPr[ >/]/.test(block);
+
+    blocks.push({
+      kind: isHeading ? 'heading' : isListItem ? 'bullet' : 'paragraph',
+      text,
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Group blocks into sections, starting a new section at every heading
+ */
+function buildSections(docBlocks: DocxBlock[]): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection | null = null;
+
+  for (const block of docBlocks) {
+    if (block.kind === 'heading' || !current) {
+      current = {
+        title: block.kind === 'heading' ? block.text : null,
+        blocks: [],
+        location: { kind: 'section', number: sections.length + 1 },
+      };
+      sections.push(current);
+      if (block.kind === 'heading') continue;
+    }
+
+    current.blocks.push(
+      block.kind === 'table'
+        ? { type: 'table', text: block.text, rows: block.rows }
+        : { type: block.kind === 'bullet' ? 'bullet' : 'paragraph', text: block.text }
+    );
+  }
+
+  return sections;
+}
+
+/**
+ * Join the text runs of a paragraph, keeping tabs and line breaks
+ */
+function extractRunText(xml: string): string {
+  let text = '';
+  const runRegex = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\/>/g;
+  let match;
+
+  while ((match = runRegex.exec(xml)) !== null) {
+    if (match[0] === '<w:tab/>') {
+      text += '\t';
+    } else if (match[0] === '<w:br/>') {
+      text += '\n';
+    } else {
+      text += decodeXmlEntities(match[1]);
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Alternative: Parse DOCX on the server side using a buffer
+ */
+export async function parseDOCXBuffer(buffer: Buffer): Promise<ParseResult> {
+  // Convert buffer to Uint8Array first for Blob compatibility
+  const uint8Array = new Uint8Array(buffer);
+  const blob = new Blob([uint8Array], {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  });
+  return parseDOCX(blob);
+}
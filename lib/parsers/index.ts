@@ -5,24 +5,49 @@
 // Easy to add new file types here
 
 import { parsePPTX } from './pptx';
+import { parsePPT } from './ppt';
 import { parsePDF } from './pdf';
+import { parseDOCX } from './docx';
+import { parseText, parseMarkdown } from './text';
+import { DocumentSection } from '@/lib/types';
 
 // Supported file extensions
-export const SUPPORTED_EXTENSIONS = ['pptx', 'ppt', 'pdf'] as const;
+export const SUPPORTED_EXTENSIONS = ['pptx', 'ppt', 'pdf', 'docx', 'txt', 'md'] as const;
 export type SupportedExtension = typeof SUPPORTED_EXTENSIONS[number];
 
 // Result of parsing a file
 export interface ParseResult {
   success: boolean;
   content: string;
+  // Ordered slides/pages/sections with titles and body blocks
+  sections?: DocumentSection[];
   error?: string;
   metadata?: {
     pageCount?: number;
     slideCount?: number;
+    paragraphCount?: number;
+    headingCount?: number;
     title?: string;
+    fileCount?: number;
+    ocrPageCount?: number; // Scanned PDF pages read with OCR
+    ocrImageCount?: number; // Slide images read with OCR
+    ocrSkippedCount?: number; // Scanned pages or slide images left unread (OCR limits or time ran out)
   };
 }
 
+// Server-side parsing options
+export interface ParseOptions {
+  // When OCR must stop (ms since epoch), shared by every file in an upload;
+  // defaults to OCR_TIME_BUDGET_MS after OCR starts on the file
+  ocrDeadline?: number;
+}
+
+// A parsed file, for merging several uploads into one quiz
+export interface ParsedFile {
+  filename: string;
+  result: ParseResult;
+}
+
 /**
  * Check if a file extension is supported
  */
@@ -58,12 +83,23 @@ export async function parseFile(file: File): Promise<ParseResult> {
     // Route to the correct parser
     switch (extension) {
       case 'pptx':
-      case 'ppt':
         return await parsePPTX(file);
       
+      case 'ppt':
+        return await parsePPT(file);
+      
       case 'pdf':
         return await parsePDF(file);
       
+      case 'docx':
+        return await parseDOCX(file);
+      
+      case 'txt':
+        return await parseText(file);
+      
+      case 'md':
+        return await parseMarkdown(file);
+      
       default:
         return {
           success: false,
@@ -86,7 +122,8 @@ export async function parseFile(file: File): Promise<ParseResult> {
  */
 export async function parseFileBuffer(
   buffer: Buffer,
-  filename: string
+  filename: string,
+  options: ParseOptions = {}
 ): Promise<ParseResult> {
   const extension = getFileExtension(filename);
   
@@ -101,7 +138,6 @@ export async function parseFileBuffer(
   try {
     switch (extension) {
       case 'pptx':
-      case 'ppt':
         // Convert buffer to File-like object for PPTX parser
         // Use Uint8Array to ensure compatibility with Blob constructor
         const uint8Array = new Uint8Array(buffer);
@@ -109,11 +145,31 @@ export async function parseFileBuffer(
           type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' 
         });
         const pptxFile = new File([pptxBlob], filename);
-        return await parsePPTX(pptxFile);
+        return await parsePPTX(pptxFile, options);
+      
+      case 'ppt':
+        // Legacy binary PowerPoint (OLE compound file, not a ZIP)
+        const pptBlob = new Blob([new Uint8Array(buffer)], {
+          type: 'application/vnd.ms-powerpoint',
+        });
+        return await parsePPT(pptBlob, options);
       
       case 'pdf':
         // PDF parser can work with buffer directly
-        return await parsePDF(buffer);
+        return await parsePDF(buffer, options);
+      
+      case 'docx':
+        // Same File-like conversion as PPTX (both are ZIP archives)
+        const docxBlob = new Blob([new Uint8Array(buffer)], {
+          type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        });
+        return await parseDOCX(docxBlob);
+      
+      case 'txt':
+        return await parseText(buffer);
+      
+      case 'md':
+        return await parseMarkdown(buffer);
       
       default:
         return {
@@ -131,3 +187,41 @@ export async function parseFileBuffer(
     };
   }
 }
+
+/**
+ * Merge several parsed files into one content bundle
+ * Each file's text starts with a [File: name] line so questions can be traced back to it
+ * A single file is returned unchanged
+ */
+export function mergeParseResults(files: ParsedFile[]): ParseResult {
+  if (files.length === 1) {
+    const { filename, result } = files[0];
+    return {
+      ...result,
+      sections: result.sections?.map((section) => ({
+        ...section,
+        location: { ...section.location, file: filename },
+      })),
+    };
+  }
+
+  const sum = (values: (number | undefined)[]) =>
+    values.some((v) => v !== undefined) ? values.reduce<number>((total, v) => total + (v || 0), 0) : undefined;
+
+  return {
+    success: true,
+    content: files.map(({ filename, result }) => `[File: ${filename}]\n${result.content}`).join('\n\n'),
+    sections: files.flatMap(({ filename, result }) =>
+      (result.sections || []).map((section) => ({
+        ...section,
+        location: { ...section.location, file: filename },
+      }))
+    ),
+    metadata: {
+      slideCount: sum(files.map((f) => f.result.metadata?.slideCount)),
+      pageCount: sum(files.map((f) => f.result.metadata?.pageCount)),
+      fileCount: files.length,
+      ocrSkippedCount: sum(files.map((f) => f.result.metadata?.ocrSkippedCount)),
+    },
+  };
+}
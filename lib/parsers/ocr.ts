@@ -0,0 +1,126 @@
+// =============================================
+// OCR (Optical Character Recognition)
+// =============================================
+// Reads text from scanned PDF pages and pasted screenshots
+// Runs fully offline: tesseract.js (WebAssembly) with the English
+// language data bundled by @tesseract.js-data/eng - no network calls
+// Server-only: load with `await import('./ocr')`
+
+import path from 'path';
+import type { Worker } from 'tesseract.js';
+
+// Set OCR_ENABLED=false to skip OCR (it adds a few seconds per page)
+export const isOcrEnabled = process.env.OCR_ENABLED !== 'false';
+
+// Limits so one upload cannot keep the server busy for minutes
+export const MAX_OCR_PAGES = 15;
+export const MAX_OCR_IMAGES = 20;
+
+// Time all OCR in one upload may take, so it finishes within the upload
+// route's 60 seconds; pages and pictures left when it runs out are skipped
+// and counted in ocrSkippedCount
+export const OCR_TIME_BUDGET_MS = 30 * 1000;
+
+// Image formats tesseract can read (EMF/WMF/SVG are vector drawings)
+export const OCR_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'bmp', 'gif', 'webp', 'tif', 'tiff'];
+
+// Smaller images are icons and logos, not text
+export const MIN_OCR_IMAGE_BYTES = 10 * 1024;
+
+// Results below this confidence (0-100) are usually photos, not text
+const MIN_CONFIDENCE = 50;
+
+// Render PDF pages at 2x (about 144 DPI), enough for body text
+const RENDER_SCALE = 2;
+
+// "4.0.0_best_int" is the LSTM-only model that tesseract.js uses by default
+const LANG_PATH = path.join(process.cwd(), 'node_modules', '@tesseract.js-data', 'eng', '4.0.0_best_int');
+
+export interface OcrSession {
+  /** Recognize the text in an image, or '' when nothing readable was found */
+  recognize: (image: Buffer) => Promise<string>;
+  /** Stop the OCR worker */
+  terminate: () => Promise<void>;
+}
+
+/**
+ * Start an OCR worker
+ * Starting one takes a second or two, so reuse it for every image of a file
+ */
+export async function createOcrSession(): Promise<OcrSession> {
+  const { createWorker } = await import('tesseract.js');
+  const worker: Worker = await createWorker('eng', 1, {
+    langPath: LANG_PATH,
+    gzip: true,
+    // Read the bundled data directly instead of caching a copy on disk
+    cacheMethod: 'none',
+  });
+
+  return {
+    recognize: async (image: Buffer) => {
+      const { data } = await worker.recognize(image);
+      if (data.confidence < MIN_CONFIDENCE) return '';
+      return cleanOcrText(data.text);
+    },
+    terminate: async () => {
+      await worker.terminate();
+    },
+  };
+}
+
+/**
+ * Render PDF pages to PNG images for OCR
+ * @param pageNumbers - 1-based page numbers to render
+ * @param deadline - Stop rendering at this time (ms since epoch)
+ */
+export async function renderPdfPages(
+  data: Uint8Array,
+  pageNumbers: number[],
+  deadline: number = Infinity
+): Promise<Map<number, Buffer>> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const { createCanvas } = await import('@napi-rs/canvas');
+
+  // pdf.js may transfer the buffer it is given, so hand it a copy
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+  }).promise;
+
+  const images = new Map<number, Buffer>();
+  try {
+    for (const pageNumber of pageNumbers) {
+      if (Date.now() >= deadline) break;
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+      // @napi-rs/canvas implements the parts of the DOM canvas API pdf.js uses
+      await page.render({
+        canvas: canvas as unknown as HTMLCanvasElement,
+        canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+
+      images.set(pageNumber, canvas.toBuffer('image/png'));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return images;
+}
+
+/**
+ * Tidy recognized text: trim lines, drop empty lines and stray symbols
+ */
+function cleanOcrText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    // Lines without a single letter or digit are scan noise
+    .filter((line) => /[A-Za-z0-9]/.test(line))
+    .join('\n');
+}
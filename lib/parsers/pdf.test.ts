@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { parsePDF } from './pdf';
+import { makePdf } from './__fixtures__/pdf';
+
+beforeAll(() => {
+  // The fixtures have a text layer; keep tesseract out of the tests
+  process.env.OCR_ENABLED = 'false';
+});
+
+const page = (number: number, body: string[]) => [
+  'OT 101 Foundations',
+  `Chapter ${number}`,
+  ...body,
+  `Page ${number} of 3`,
+];
+
+describe('parsePDF', () => {
+  it('marks each page and uses a short first line as the section title', async () => {
+    const result = await parsePDF(makePdf([['Occupational Profile', 'Gathered in the first session.']]));
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe('[Page 1]\nOccupational Profile\nGathered in the first session.');
+    expect(result.sections?.[0]).toMatchObject({
+      title: 'Occupational Profile',
+      location: { kind: 'page', number: 1 },
+    });
+  });
+
+  it('strips running headers, footers and page numbers', async () => {
+    const result = await parsePDF(makePdf([
+      page(1, ['MOHO describes volition.']),
+      page(2, ['PEO looks at person, environment and occupation.']),
+      page(3, ['CMOP-E adds engagement.']),
+    ]));
+
+    expect(result.content).not.toContain('OT 101 Foundations');
+    expect(result.content).not.toMatch(/Page \d of 3/);
+    expect(result.content).toContain('[Page 2]\nPEO looks at person, environment and occupation.');
+  });
+
+  it('keeps repeated lines in the middle of the page', async () => {
+    const body = (text: string) => ['Intro line', 'Model | Author', text, 'Summary line', 'Closing line', 'Last line'];
+    const result = await parsePDF(makePdf([
+      page(1, body('MOHO | Kielhofner')),
+      page(2, body('PEO | Law')),
+      page(3, body('CMOP-E | Townsend')),
+    ]));
+
+    expect(result.content.match(/Model \| Author/g)).toHaveLength(3);
+  });
+
+  it('counts scanned pages left unread once the OCR time runs out', async () => {
+    // OCR settings are read when the OCR module first loads
+    vi.resetModules();
+    process.env.OCR_ENABLED = 'true';
+    const { parsePDF: parseWithOcr } = await import('./pdf');
+    const result = await parseWithOcr(makePdf([['Typed page with enough text to skip OCR'], [], []]), {
+      ocrDeadline: Date.now() - 1,
+    });
+    process.env.OCR_ENABLED = 'false';
+
+    expect(result.success).toBe(true);
+    expect(result.metadata).toMatchObject({ ocrSkippedCount: 2 });
+    expect(result.metadata?.ocrPageCount).toBeUndefined();
+  });
+
+  it('fails on a PDF without text', async () => {
+    const result = await parsePDF(makePdf([[]]));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No text content/);
+  });
+});
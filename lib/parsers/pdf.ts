@@ -3,21 +3,46 @@
 // =============================================
 // Extracts text content from PDF files
 // Uses pdf-parse for server-side, pdfjs for client-side
+// Scanned pages without a text layer are read with OCR (see ocr.ts)
 
-import { ParseResult } from './index';
+import type { PDFPageData } from 'pdf-parse';
+import type { OcrSession } from './ocr';
+import { ParseResult, ParseOptions } from './index';
+import { textToBlocks } from './document';
+import { DocumentSection } from '@/lib/types';
+
+// A line on at least this share of pages is treated as a header/footer
+const REPEATED_LINE_RATIO = 0.6;
+
+// How many lines at the top and bottom of a page may hold a page number
+const PAGE_EDGE_LINES = 2;
+
+// How many lines at the top and bottom of a page may hold a running header/footer
+// (a repeated line elsewhere on the page is body text, e.g. a table header)
+const RUNNING_EDGE_LINES = 3;
+
+// Pages with less text than this are treated as scans and sent to OCR
+const MIN_PAGE_TEXT_LENGTH = 20;
+
+// "12", "- 12 -", "Page 12", "Page 12 of 40", "12 / 40", "12 of 40"
+const PAGE_NUMBER_PATTERNS = [
+  /^[-–—]?\s*\d+\s*[-–—]?$/,
+  /^page\s+\d+(\s*(of|\/)\s*\d+)?$/i,
+  /^\d+\s*(of|\/)\s*\d+$/i,
+];
 
 /**
  * Parse a PDF file and extract all text content
  * Works on both client and server side
  */
-export async function parsePDF(input: File | Buffer): Promise<ParseResult> {
+export async function parsePDF(input: File | Buffer, options: ParseOptions = {}): Promise<ParseResult> {
   try {
     // Check if we're on the server or client
     const isServer = typeof window === 'undefined';
     
     if (isServer && Buffer.isBuffer(input)) {
       // Server-side: use pdf-parse library
-      return await parsePDFServer(input);
+      return await parsePDFServer(input, options);
     } else if (input instanceof File) {
       // Client-side: use pdfjs-dist or fallback
       return await parsePDFClient(input);
@@ -41,14 +66,51 @@ export async function parsePDF(input: File | Buffer): Promise<ParseResult> {
 /**
  * Server-side PDF parsing using pdf-parse
  */
-async function parsePDFServer(buffer: Buffer): Promise<ParseResult> {
+async function parsePDFServer(buffer: Buffer, options: ParseOptions = {}): Promise<ParseResult> {
   try {
     // Dynamically import pdf-parse (server-only)
     const pdfParse = (await import('pdf-parse')).default;
     
-    const data = await pdfParse(buffer);
+    // Capture each page's text as pdf-parse renders it, for the structured sections
+    const pageTexts: string[] = [];
+    // pdf.js misreads some Node Buffers (Buffer.slice shares memory), so pass a plain copy
+    const data = await pdfParse(new Uint8Array(buffer), {
+      pagerender: async (pageData) => {
+        const text = await renderPageText(pageData);
+        pageTexts[pageData.pageIndex] = text;
+        return text;
+      },
+    });
     
-    if (!data.text || !data.text.trim()) {
+    // Clean each page, then read scanned pages with OCR
+    const rawPages = Array.from({ length: data.numpages }, (_, index) =>
+      cleanPDFText(pageTexts[index] || '').split('\n').filter((line) => line.trim())
+    );
+    const { ocrPages, skipped } = await recognizeScannedPages(buffer, rawPages, options.ocrDeadline);
+    
+    // Drop running headers/footers and page numbers
+    const pages = stripRepeatedLines(rawPages);
+    
+    // Build [Page N] blocks like the PPTX [Slide N] blocks
+    const pageContents: string[] = [];
+    const sections: DocumentSection[] = [];
+    pages.forEach((lines, index) => {
+      if (lines.length === 0) return;
+      pageContents.push(`[Page ${index + 1}]\n${lines.join('\n')}`);
+      
+      // A short first line is usually the page heading
+      const hasTitle = lines.length > 1 && lines[0].length <= 80 && !/^\d+$/.test(lines[0]);
+      sections.push({
+        title: hasTitle ? lines[0] : null,
+        blocks: textToBlocks((hasTitle ? lines.slice(1) : lines).join('\n')),
+        location: { kind: 'page', number: index + 1 },
+        ocr: ocrPages.has(index) || undefined,
+      });
+    });
+    
+    const fullContent = pageContents.join('\n\n');
+    
+    if (!fullContent.trim()) {
       return {
         success: false,
         content: '',
@@ -56,15 +118,15 @@ async function parsePDFServer(buffer: Buffer): Promise<ParseResult> {
       };
     }
     
-    // Clean up the text
-    const cleanedText = cleanPDFText(data.text);
-    
     return {
       success: true,
-      content: cleanedText,
+      content: fullContent,
+      sections,
       metadata: {
         pageCount: data.numpages,
         title: data.info?.Title || undefined,
+        ocrPageCount: ocrPages.size || undefined,
+        ocrSkippedCount: skipped || undefined,
       },
     };
   } catch (error) {
@@ -73,6 +135,79 @@ async function parsePDFServer(buffer: Buffer): Promise<ParseResult> {
   }
 }
 
+/**
+ * OCR the pages that have (almost) no text layer, e.g. scanned handouts
+ * Recognized lines replace the page's lines in place
+ * Returns the 0-based indexes of the pages that were read with OCR, and how
+ * many scanned pages were left unread (past MAX_OCR_PAGES or the deadline)
+ */
+async function recognizeScannedPages(
+  buffer: Buffer,
+  pages: string[][],
+  ocrDeadline?: number
+): Promise<{ ocrPages: Set<number>; skipped: number }> {
+  const ocrPages = new Set<number>();
+  const { isOcrEnabled, MAX_OCR_PAGES, OCR_TIME_BUDGET_MS, createOcrSession, renderPdfPages } = await import('./ocr');
+  if (!isOcrEnabled) return { ocrPages, skipped: 0 };
+  
+  const scanned = pages
+    .map((lines, index) => ({ index, length: lines.join('').length }))
+    .filter((page) => page.length < MIN_PAGE_TEXT_LENGTH)
+    .map((page) => page.index);
+  if (scanned.length === 0) return { ocrPages, skipped: 0 };
+  
+  // OCR is best effort: if it fails or runs out of time, keep whatever text the PDF had
+  const deadline = ocrDeadline ?? Date.now() + OCR_TIME_BUDGET_MS;
+  if (Date.now() >= deadline) return { ocrPages, skipped: scanned.length };
+  const toRead = scanned.slice(0, MAX_OCR_PAGES);
+  let attempted = 0;
+  let session: OcrSession | null = null;
+  try {
+    const images = await renderPdfPages(new Uint8Array(buffer), toRead.map((index) => index + 1), deadline);
+    session = await createOcrSession();
+    
+    for (const index of toRead) {
+      if (Date.now() >= deadline) break;
+      attempted++;
+      const image = images.get(index + 1);
+      const text = image ? await session.recognize(image) : '';
+      if (text) {
+        pages[index] = cleanPDFText(text).split('\n').filter((line) => line.trim());
+        ocrPages.add(index);
+      }
+    }
+  } catch (error) {
+    console.error('PDF OCR error:', error);
+  } finally {
+    await session?.terminate();
+  }
+  
+  return { ocrPages, skipped: scanned.length - attempted };
+}
+
+/**
+ * Render one page's text the same way pdf-parse does by default:
+ * items on the same baseline are joined, a new baseline starts a new line
+ */
+async function renderPageText(pageData: PDFPageData): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+  
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    if (lastY === item.transform[5] || lastY === undefined) {
+      text += item.str;
+    } else {
+      text += '\n' + item.str;
+    }
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
 /**
  * Client-side PDF parsing
  * Uses a simpler approach that works in the browser
@@ -122,6 +257,53 @@ function cleanPDFText(text: string): string {
     .trim();
 }
 
+/**
+ * Remove running headers, footers and page numbers
+ * A line counts as a running header/footer when it sits at the top or
+ * bottom of most pages (digits are ignored so "Page 3 of 10" matches
+ * "Page 4 of 10")
+ */
+function stripRepeatedLines(pages: string[][]): string[][] {
+  const pagesWithText = pages.filter((lines) => lines.length > 0).length;
+  
+  // Count how many pages each normalized edge line appears on
+  const pageCounts = new Map<string, number>();
+  for (const lines of pages) {
+    const edgeLines = lines.filter((_, index) => isEdgeLine(index, lines.length, RUNNING_EDGE_LINES));
+    for (const key of Array.from(new Set(edgeLines.map(normalizeRepeatedLine)))) {
+      pageCounts.set(key, (pageCounts.get(key) || 0) + 1);
+    }
+  }
+  
+  // Too few pages to tell a header from a coincidence
+  const minPages = Math.max(3, Math.ceil(pagesWithText * REPEATED_LINE_RATIO));
+  const isRepeated = (line: string) =>
+    pagesWithText >= 3 && (pageCounts.get(normalizeRepeatedLine(line)) || 0) >= minPages;
+  
+  return pages.map((lines) =>
+    lines.filter((line, index) => {
+      if (isEdgeLine(index, lines.length, RUNNING_EDGE_LINES) && isRepeated(line)) return false;
+      // Page numbers only count at the top or bottom of the page
+      const isPageNumber = PAGE_NUMBER_PATTERNS.some((pattern) => pattern.test(line));
+      return !(isEdgeLine(index, lines.length, PAGE_EDGE_LINES) && isPageNumber);
+    })
+  );
+}
+
+/**
+ * Whether a line is among the first or last few lines of its page
+ */
+function isEdgeLine(index: number, lineCount: number, edgeLines: number): boolean {
+  return index < edgeLines || index >= lineCount - edgeLines;
+}
+
+/**
+ * Key used to compare lines across pages: lowercase, digits replaced
+ */
+function normalizeRepeatedLine(line: string): string {
+  return line.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
 /**
  * Parse PDF from base64 string (useful for API responses)
  */
@@ -0,0 +1,303 @@
+// =============================================
+// Legacy PowerPoint (PPT) Parser
+// =============================================
+// Extracts text content from PowerPoint 97-2003 files
+// A .ppt is a compound file (see cfb.ts) whose "PowerPoint Document"
+// stream is a tree of binary records
+// Spec: [MS-PPT] PowerPoint (.ppt) Binary File Format
+
+import { ParseResult, ParseOptions } from './index';
+import { isCompoundFile, openCompoundFile } from './cfb';
+import { parsePPTX } from './pptx';
+import { textToBlocks } from './document';
+import { DocumentSection } from '@/lib/types';
+
+// Record types we care about
+const RT_DOCUMENT = 0x03e8;
+const RT_SLIDE = 0x03ee;
+const RT_SLIDE_PERSIST_ATOM = 0x03f3;
+const RT_TEXT_HEADER_ATOM = 0x0f9f;
+const RT_TEXT_CHARS_ATOM = 0x0fa0;
+const RT_TEXT_BYTES_ATOM = 0x0fa8;
+const RT_SLIDE_LIST_WITH_TEXT = 0x0ff0;
+const RT_PERSIST_DIRECTORY_ATOM = 0x1772;
+
+// TextHeaderAtom text types that hold slide titles
+const TITLE_TEXT_TYPES = [0, 6]; // Tx_TYPE_TITLE, Tx_TYPE_CENTERTITLE
+
+// A record header plus where its data lives in the stream
+interface PptRecord {
+  type: number;
+  instance: number;
+  isContainer: boolean;
+  dataOffset: number;
+  length: number;
+}
+
+// Text collected for one slide
+interface SlideText {
+  persistId: number;
+  texts: { text: string; isTitle: boolean }[];
+}
+
+/**
+ * Parse a legacy PowerPoint file and extract all text content
+ * Output uses the same [Slide N] blocks as parsePPTX
+ */
+export async function parsePPT(file: File | Blob, options: ParseOptions = {}): Promise<ParseResult> {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    // Some ".ppt" files are really PPTX files with the wrong extension
+    if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+      return await parsePPTX(file, options);
+    }
+
+    if (!isCompoundFile(bytes)) {
+      return {
+        success: false,
+        content: '',
+        error: 'This does not look like a PowerPoint 97-2003 file',
+      };
+    }
+
+    const compound = openCompoundFile(bytes);
+
+    // Password-protected PPTX files are wrapped in a compound file too
+    if (compound.readStream('EncryptedPackage')) {
+      return {
+        success: false,
+        content: '',
+        error: 'This PowerPoint file is password-protected. Please remove the password and try again.',
+      };
+    }
+
+    const stream = compound.readStream('PowerPoint Document');
+    if (!stream) {
+      return {
+        success: false,
+        content: '',
+        error: 'No PowerPoint Document stream found in the file',
+      };
+    }
+
+    const slides = extractSlides(stream);
+
+    // Build [Slide N] blocks, titles first
+    const slideContents: string[] = [];
+    const sections: DocumentSection[] = [];
+    slides.forEach((slide, index) => {
+      const titles = slide.texts.filter((t) => t.isTitle).map((t) => t.text);
+      const body = slide.texts.filter((t) => !t.isTitle).map((t) => t.text);
+      const slideText = [...titles, ...body].join('\n');
+      if (slideText.trim()) {
+        slideContents.push(`[Slide ${index + 1}]\n${slideText}`);
+        sections.push({
+          title: titles.length > 0 ? titles.join(' ').replace(/\n/g, ' ') : null,
+          blocks: body.flatMap((text) => textToBlocks(text)),
+          location: { kind: 'slide', number: index + 1 },
+        });
+      }
+    });
+
+    const fullContent = slideContents.join('\n\n');
+
+    if (!fullContent.trim()) {
+      return {
+        success: false,
+        content: '',
+        error: 'No text content found in the PowerPoint file',
+      };
+    }
+
+    return {
+      success: true,
+      content: fullContent,
+      sections,
+      metadata: {
+        slideCount: slides.length,
+      },
+    };
+  } catch (error) {
+    console.error('Error parsing PPT:', error);
+    return {
+      success: false,
+      content: '',
+      error: `Failed to parse PowerPoint: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Collect the text of every slide, in presentation order
+ *
+ * Placeholder text (titles, body bullets) is stored in the Document's
+ * SlideListWithText, one SlidePersistAtom per slide followed by its text.
+ * Text boxes the user drew themselves live inside each Slide record,
+ * which we find through the persist directory.
+ */
+function extractSlides(stream: Uint8Array): SlideText[] {
+  const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+  const topLevel = readChildren(view, 0, stream.length);
+
+  // Persist directory: persist id -> stream offset
+  // Later directories (from incremental saves) override earlier ones
+  const persistOffsets = new Map<number, number>();
+  for (const record of topLevel) {
+    if (record.type === RT_PERSIST_DIRECTORY_ATOM) {
+      readPersistDirectory(view, record, persistOffsets);
+    }
+  }
+
+  // The last Document record is the current one
+  const documentRecord = [...topLevel].reverse().find((r) => r.type === RT_DOCUMENT);
+  const slides: SlideText[] = [];
+
+  if (documentRecord) {
+    const slideList = readChildren(view, documentRecord.dataOffset, documentRecord.length)
+      .find((r) => r.type === RT_SLIDE_LIST_WITH_TEXT && r.instance === 0);
+
+    if (slideList) {
+      let current: SlideText | null = null;
+      let isTitle = false;
+
+      for (const record of readChildren(view, slideList.dataOffset, slideList.length)) {
+        if (record.type === RT_SLIDE_PERSIST_ATOM) {
+          current = { persistId: view.getUint32(record.dataOffset, true), texts: [] };
+          slides.push(current);
+          isTitle = false;
+        } else if (record.type === RT_TEXT_HEADER_ATOM) {
+          isTitle = TITLE_TEXT_TYPES.includes(view.getUint32(record.dataOffset, true));
+        } else if (current) {
+          const text = readTextAtom(stream, record);
+          if (text) current.texts.push({ text, isTitle });
+        }
+      }
+    }
+  }
+
+  // Add text from the slide drawings (text boxes, shapes, tables)
+  for (const slide of slides) {
+    const offset = persistOffsets.get(slide.persistId);
+    if (offset === undefined || offset + 8 > stream.length) continue;
+
+    const slideRecord = readRecordHeader(view, offset);
+    if (slideRecord.type !== RT_SLIDE) continue;
+
+    for (const text of collectText(view, stream, slideRecord)) {
+      if (!slide.texts.some((t) => t.text === text)) {
+        slide.texts.push({ text, isTitle: false });
+      }
+    }
+  }
+
+  // Fallback: no slide list, so take Slide records in stream order
+  if (slides.length === 0) {
+    for (const record of topLevel) {
+      if (record.type === RT_SLIDE) {
+        slides.push({
+          persistId: -1,
+          texts: collectText(view, stream, record).map((text) => ({ text, isTitle: false })),
+        });
+      }
+    }
+  }
+
+  return slides;
+}
+
+/**
+ * Read the 8-byte record header at an offset
+ */
+function readRecordHeader(view: DataView, offset: number): PptRecord {
+  const verAndInstance = view.getUint16(offset, true);
+  return {
+    type: view.getUint16(offset + 2, true),
+    instance: verAndInstance >> 4,
+    isContainer: (verAndInstance & 0x0f) === 0x0f,
+    dataOffset: offset + 8,
+    length: view.getUint32(offset + 4, true),
+  };
+}
+
+/**
+ * Read the records directly inside a container (or the whole stream)
+ */
+function readChildren(view: DataView, start: number, length: number): PptRecord[] {
+  const records: PptRecord[] = [];
+  const end = Math.min(start + length, view.byteLength);
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const record = readRecordHeader(view, offset);
+    // Stop on truncated records instead of reading past the container
+    if (record.dataOffset + record.length > end) break;
+    records.push(record);
+    offset = record.dataOffset + record.length;
+  }
+
+  return records;
+}
+
+/**
+ * Recursively collect text atoms inside a record
+ */
+function collectText(view: DataView, stream: Uint8Array, record: PptRecord): string[] {
+  if (!record.isContainer) {
+    const text = readTextAtom(stream, record);
+    return text ? [text] : [];
+  }
+  return readChildren(view, record.dataOffset, record.length)
+    .flatMap((child) => collectText(view, stream, child));
+}
+
+/**
+ * Decode a TextCharsAtom (UTF-16LE) or TextBytesAtom (Latin-1)
+ * Returns null for any other record
+ */
+function readTextAtom(stream: Uint8Array, record: PptRecord): string | null {
+  const data = stream.subarray(record.dataOffset, record.dataOffset + record.length);
+  let text: string;
+
+  if (record.type === RT_TEXT_CHARS_ATOM) {
+    text = '';
+    for (let i = 0; i + 1 < data.length; i += 2) {
+      text += String.fromCharCode(data[i] | (data[i + 1] << 8));
+    }
+  } else if (record.type === RT_TEXT_BYTES_ATOM) {
+    text = Array.from(data, (byte) => String.fromCharCode(byte)).join('');
+  } else {
+    return null;
+  }
+
+  // PowerPoint uses \r between paragraphs and \v for line breaks
+  const cleaned = text
+    .split(/[\r\v\n]/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    // "*" is the placeholder for slide number fields
+    .filter((line) => line && line !== '*')
+    .join('\n');
+
+  return cleaned || null;
+}
+
+/**
+ * Read a PersistDirectoryAtom into the persist id -> offset map
+ * Each entry is a 20-bit starting id + 12-bit count, then one offset per id
+ */
+function readPersistDirectory(view: DataView, record: PptRecord, offsets: Map<number, number>): void {
+  const end = record.dataOffset + record.length;
+  let offset = record.dataOffset;
+
+  while (offset + 4 <= end) {
+    const entry = view.getUint32(offset, true);
+    const startId = entry & 0xfffff;
+    const count = entry >>> 20;
+    offset += 4;
+
+    for (let i = 0; i < count && offset + 4 <= end; i++) {
+      offsets.set(startId + i, view.getUint32(offset, true));
+      offset += 4;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { parsePPTXBuffer } from './pptx';
+import { makePptx } from './__fixtures__/pptx';
+
+beforeAll(() => {
+  process.env.OCR_ENABLED = 'false';
+});
+
+const slides = [
+  { title: 'Occupational Therapy', bullets: ['Course overview'] },
+  { title: 'MOHO', bullets: ['Volition', 'Habituation'], notes: ['Kielhofner, 1980'] },
+  { title: 'PEO', bullets: ['Person, environment, occupation'] },
+];
+
+describe('parsePPTXBuffer', () => {
+  it('reads titles, bullets and speaker notes', async () => {
+    const result = await parsePPTXBuffer(await makePptx(slides, [1, 2, 3]));
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('[Slide 2]\nMOHO\nVolition\nHabituation\nSpeaker Notes:\nKielhofner, 1980');
+    expect(result.sections?.[1]).toEqual({
+      title: 'MOHO',
+      blocks: [
+        { type: 'bullet', text: 'Volition' },
+        { type: 'bullet', text: 'Habituation' },
+        { type: 'notes', text: 'Kielhofner, 1980' },
+      ],
+      location: { kind: 'slide', number: 2 },
+    });
+    expect(result.metadata?.slideCount).toBe(3);
+  });
+
+  it('follows the presentation order, not the slide file names', async () => {
+    // PEO (slide3.xml) was moved to the front
+    const result = await parsePPTXBuffer(await makePptx(slides, [3, 1, 2]));
+
+    expect(result.content.match(/\[Slide \d\]\n\w+/g)).toEqual([
+      '[Slide 1]\nPEO',
+      '[Slide 2]\nOccupational',
+      '[Slide 3]\nMOHO',
+    ]);
+    expect(result.sections?.map((section) => [section.location.number, section.title])).toEqual([
+      [1, 'PEO'],
+      [2, 'Occupational Therapy'],
+      [3, 'MOHO'],
+    ]);
+  });
+
+  it('falls back to the file names without a slide list', async () => {
+    const result = await parsePPTXBuffer(await makePptx(slides));
+
+    expect(result.sections?.map((section) => section.title)).toEqual(['Occupational Therapy', 'MOHO', 'PEO']);
+  });
+});
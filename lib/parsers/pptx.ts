@@ -3,51 +3,94 @@
 // =============================================
 // Extracts text content from PowerPoint files
 // Uses JSZip to read the PPTX (which is a ZIP file with XML inside)
+// On the server, pictures under ppt/media/ are read with OCR (see ocr.ts)
 
-import { ParseResult } from './index';
+import { ParseResult, ParseOptions } from './index';
+import { decodeXmlEntities } from './xml';
+import { openArchive, ArchiveReader } from './archive';
+import type { OcrSession } from './ocr';
+import { ContentBlock, DocumentSection } from '@/lib/types';
+
+// Placeholder types that only hold slide chrome, not content
+const SKIPPED_PLACEHOLDERS = ['sldNum', 'dt', 'ftr', 'hdr', 'sldImg'];
+
+// Placeholder types used for the section title and for bullet lists
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle'];
+const BULLET_PLACEHOLDERS = ['body', 'obj'];
+
+// A text shape or table found on a slide
+interface SlideShape {
+  placeholder: string | null; // Placeholder type ("title", "body", ...) or null for free text boxes
+  paragraphs: string[];
+  rows?: string[][]; // Set for tables
+}
+
+// Everything read from one slide
+interface SlideData {
+  number: number;
+  shapes: SlideShape[];
+  notes: SlideShape[];
+  images: string[]; // Zip paths of the pictures on the slide
+  imageText: string[]; // Text recognized in those pictures
+}
+
+// An entry in a part's .rels file
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
 
 /**
  * Parse a PowerPoint file and extract all text content
  * PPTX files are actually ZIP archives containing XML files
  */
-export async function parsePPTX(file: File | Blob): Promise<ParseResult> {
+export async function parsePPTX(file: File | Blob, options: ParseOptions = {}): Promise<ParseResult> {
   try {
-    // Dynamically import JSZip (for client-side usage)
-    const JSZip = (await import('jszip')).default;
+    // Load the ZIP contents (unpacked sizes are capped)
+    const archive = await openArchive(await file.arrayBuffer());
     
-    // Read the file as array buffer
-    const arrayBuffer = await file.arrayBuffer();
+    // Slides in presentation order (the file names keep their creation order)
+    const slideFiles = await findSlidePaths(archive);
     
-    // Load the ZIP contents
-    const zip = await JSZip.loadAsync(arrayBuffer);
+    // Read the text, speaker notes and pictures of each slide
+    const slides: SlideData[] = [];
     
-    // Find all slide XML files
-    const slideFiles: string[] = [];
-    zip.forEach((relativePath) => {
-      // Slides are in ppt/slides/slide1.xml, slide2.xml, etc.
-      if (relativePath.match(/ppt\/slides\/slide\d+\.xml$/)) {
-        slideFiles.push(relativePath);
-      }
-    });
+    for (const [index, slidePath] of Array.from(slideFiles.entries())) {
+      const slideXml = await archive.text(slidePath);
+      if (!slideXml) continue;
+      
+      const relationships = await readRelationships(archive, slidePath);
+      slides.push({
+        number: index + 1,
+        shapes: extractShapesFromXml(slideXml),
+        notes: await readSlideNotes(archive, relationships),
+        images: findSlideImages(slideXml, relationships),
+        imageText: [],
+      });
+    }
     
-    // Sort slides by number
-    slideFiles.sort((a, b) => {
-      const numA = parseInt(a.match(/slide(\d+)\.xml/)?.[1] || '0');
-      const numB = parseInt(b.match(/slide(\d+)\.xml/)?.[1] || '0');
-      return numA - numB;
-    });
+    // Screenshots pasted onto slides hold text too (server only)
+    const ocr = typeof window === 'undefined'
+      ? await recognizeSlideImages(archive, slides, options.ocrDeadline)
+      : { recognized: 0, skipped: 0 };
     
-    // Extract text from each slide
+    // Build [Slide N] blocks: slide text, then text read from pictures, then speaker notes
     const slideContents: string[] = [];
+    const sections: DocumentSection[] = [];
     
-    for (const slidePath of slideFiles) {
-      const slideXml = await zip.file(slidePath)?.async('text');
-      if (slideXml) {
-        const slideText = extractTextFromSlideXml(slideXml);
-        if (slideText.trim()) {
-          const slideNum = slidePath.match(/slide(\d+)\.xml/)?.[1] || '?';
-          slideContents.push(`[Slide ${slideNum}]\n${slideText}`);
-        }
+    for (const slide of slides) {
+      const slideText = renderShapes(slide.shapes);
+      const imageText = slide.imageText.join('\n');
+      const notesText = renderShapes(slide.notes);
+      
+      if (slideText.trim() || imageText.trim() || notesText.trim()) {
+        let block = `[Slide ${slide.number}]`;
+        if (slideText.trim()) block += `\n${slideText}`;
+        if (imageText.trim()) block += `\nImage Text:\n${imageText}`;
+        if (notesText.trim()) block += `\nSpeaker Notes:\n${notesText}`;
+        slideContents.push(block);
+        sections.push(buildSlideSection(slide));
       }
     }
     
@@ -65,8 +108,11 @@ export async function parsePPTX(file: File | Blob): Promise<ParseResult> {
     return {
       success: true,
       content: fullContent,
+      sections,
       metadata: {
         slideCount: slideFiles.length,
+        ocrImageCount: ocr.recognized || undefined,
+        ocrSkippedCount: ocr.skipped || undefined,
       },
     };
   } catch (error) {
@@ -80,57 +126,310 @@ export async function parsePPTX(file: File | Blob): Promise<ParseResult> {
 }
 
 /**
- * Extract text content from a slide's XML
- * The text in PPTX is stored in <a:t> tags
+ * The slide parts in the order the presentation shows them
+ * The order is the slide list in ppt/presentation.xml (<p:sldIdLst>), whose
+ * entries point at slide parts through the presentation's relationships;
+ * slideN.xml names keep the order slides were created in, so after slides
+ * are moved they no longer match. Falls back to the file names when the
+ * list is missing
  */
-function extractTextFromSlideXml(xml: string): string {
-  const textParts: string[] = [];
+async function findSlidePaths(archive: ArchiveReader): Promise<string[]> {
+  const presentationXml = await archive.text('ppt/presentation.xml');
+  const slideList = presentationXml?.match(/<p:sldIdLst>([\s\S]*?)<\/p:sldIdLst>/)?.[1];
+  if (slideList) {
+    const relationships = await readRelationships(archive, 'ppt/presentation.xml');
+    const paths = (slideList.match(/<p:sldId\s[^>]*>/g) || [])
+      .map((tag) => tag.match(/r:id="([^"]+)"/)?.[1])
+      .map((id) => relationships.find((rel) => rel.id === id)?.target)
+      .filter((path): path is string => !!path && archive.paths.includes(path));
+    if (paths.length > 0) return paths;
+  }
   
-  // Match all <a:t>...</a:t> tags (text content in OOXML)
-  const textRegex = /<a:t>([^<]*)<\/a:t>/g;
-  let match;
+  // Slides are in ppt/slides/slide1.xml, slide2.xml, etc.
+  const slideNumber = (path: string) => parseInt(path.match(/slide(\d+)\.xml$/)?.[1] || '0');
+  return archive.paths
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+/**
+ * Read a part's relationships (slides, notes slide, pictures, layout, ...)
+ * They live next to the part, e.g. ppt/slides/_rels/slide1.xml.rels
+ */
+async function readRelationships(archive: ArchiveReader, partPath: string): Promise<Relationship[]> {
+  const slash = partPath.lastIndexOf('/');
+  const folder = partPath.slice(0, slash);
+  const relsXml = await archive.text(`${folder}/_rels/${partPath.slice(slash + 1)}.rels`);
+  if (!relsXml) return [];
+  
+  // Attribute order varies between writers, so read each <Relationship> tag separately
+  return (relsXml.match(/<Relationship\s[^>]*>/g) || []).map((rel) => ({
+    id: rel.match(/Id="([^"]+)"/)?.[1] || '',
+    type: rel.match(/Type="([^"]+)"/)?.[1] || '',
+    // Targets are relative to the part's folder, e.g. "../notesSlides/notesSlide1.xml"
+    target: resolveZipPath(folder, rel.match(/Target="([^"]+)"/)?.[1] || ''),
+  }));
+}
+
+/**
+ * Find the notes slide linked to a slide and extract its text
+ */
+async function readSlideNotes(archive: ArchiveReader, relationships: Relationship[]): Promise<SlideShape[]> {
+  const notesRel = relationships.find((rel) => rel.type.endsWith('/notesSlide'));
+  if (!notesRel) return [];
   
-  while ((match = textRegex.exec(xml)) !== null) {
-    const text = match[1].trim();
-    if (text) {
-      textParts.push(text);
+  const notesXml = await archive.text(notesRel.target);
+  if (!notesXml) return [];
+  
+  return extractShapesFromXml(notesXml);
+}
+
+/**
+ * Find the media files of the pictures (<p:pic>) placed on a slide
+ */
+function findSlideImages(xml: string, relationships: Relationship[]): string[] {
+  const images: string[] = [];
+  
+  for (const picture of xml.match(/<p:pic[\s>][\s\S]*?<\/p:pic>/g) || []) {
+    const embedId = picture.match(/<a:blip\s[^>]*r:embed="([^"]+)"/)?.[1];
+    const target = relationships.find((rel) => rel.id === embedId)?.target;
+    if (target?.startsWith('ppt/media/') && !images.includes(target)) {
+      images.push(target);
     }
   }
   
-  // Also try to find text in other common tags
-  // Sometimes text is in <t>...</t> tags
-  const altTextRegex = /<t[^>]*>([^<]*)<\/t>/g;
-  while ((match = altTextRegex.exec(xml)) !== null) {
-    const text = match[1].trim();
-    if (text && !textParts.includes(text)) {
-      textParts.push(text);
+  return images;
+}
+
+/**
+ * Read the text in slide pictures with OCR
+ * Each media file is read once (a picture reused on several slides counts
+ * for the first one), small images are skipped as icons and logos
+ * Returns how many images produced text, and how many were left unread
+ * (past MAX_OCR_IMAGES or the deadline)
+ */
+async function recognizeSlideImages(
+  archive: ArchiveReader,
+  slides: SlideData[],
+  ocrDeadline?: number
+): Promise<{ recognized: number; skipped: number }> {
+  const {
+    isOcrEnabled,
+    MAX_OCR_IMAGES,
+    OCR_TIME_BUDGET_MS,
+    OCR_IMAGE_EXTENSIONS,
+    MIN_OCR_IMAGE_BYTES,
+    createOcrSession,
+  } = await import('./ocr');
+  if (!isOcrEnabled) return { recognized: 0, skipped: 0 };
+  
+  const seen = new Set<string>();
+  const queue: { slide: SlideData; path: string }[] = [];
+  for (const slide of slides) {
+    for (const path of slide.images) {
+      const extension = path.split('.').pop()?.toLowerCase() || '';
+      if (seen.has(path) || !OCR_IMAGE_EXTENSIONS.includes(extension)) continue;
+      seen.add(path);
+      queue.push({ slide, path });
     }
   }
+  if (queue.length === 0) return { recognized: 0, skipped: 0 };
   
-  // Join with appropriate spacing
-  // Group text that appears to be in the same paragraph
-  let result = '';
-  let currentLine = '';
+  // OCR is best effort: if it fails or runs out of time, the slides keep their regular text
+  const deadline = ocrDeadline ?? Date.now() + OCR_TIME_BUDGET_MS;
+  let session: OcrSession | null = null;
+  let recognized = 0;
+  let attempted = 0;
+  try {
+    for (const { slide, path } of queue) {
+      if (recognized >= MAX_OCR_IMAGES || Date.now() >= deadline) break;
+      attempted++;
+      
+      const bytes = await archive.bytes(path);
+      const image = bytes && Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length);
+      if (!image || image.length < MIN_OCR_IMAGE_BYTES) continue;
+      
+      session = session || (await createOcrSession());
+      const text = await session.recognize(image);
+      if (text) {
+        slide.imageText.push(text);
+        recognized++;
+      }
+    }
+  } catch (error) {
+    console.error('PPTX OCR error:', error);
+  } finally {
+    await session?.terminate();
+  }
+  
+  return { recognized, skipped: queue.length - attempted };
+}
+
+/**
+ * Resolve a relationship target against the folder of the part that owns it
+ */
+function resolveZipPath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
   
-  for (const part of textParts) {
-    // If this looks like a new bullet point or heading, start a new line
-    if (part.match(/^[\d•\-\*]/) || part.length > 50) {
-      if (currentLine) {
-        result += currentLine + '\n';
+  const parts = baseDir.split('/');
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/**
+ * Extract text shapes and tables from a slide (or notes slide) in document order
+ * Shapes inside groups (<p:grpSp>) are picked up too, since we scan the whole tree
+ */
+function extractShapesFromXml(xml: string): SlideShape[] {
+  const shapes: SlideShape[] = [];
+  const shapeRegex = /<p:sp(?:\s[^>]*)?>[\s\S]*?<\/p:sp>|<p:graphicFrame(?:\s[^>]*)?>[\s\S]*?<\/p:graphicFrame>/g;
+  let match;
+  
+  while ((match = shapeRegex.exec(xml)) !== null) {
+    const shapeXml = match[0];
+    
+    // Tables are graphic frames containing <a:tbl>
+    if (shapeXml.startsWith('<p:graphicFrame')) {
+      const rows = extractTableRows(shapeXml);
+      if (rows.length > 0) {
+        shapes.push({ placeholder: null, paragraphs: [], rows });
       }
-      currentLine = part;
+      continue;
+    }
+    
+    // Placeholders without an explicit type are body placeholders
+    const placeholderTag = shapeXml.match(/<p:ph(?:\s[^>]*)?\/?>/)?.[0];
+    const placeholder = placeholderTag
+      ? placeholderTag.match(/type="(\w+)"/)?.[1] || 'body'
+      : null;
+    
+    // Skip slide numbers, dates, footers and the slide thumbnail on notes pages
+    if (placeholder && SKIPPED_PLACEHOLDERS.includes(placeholder)) continue;
+    
+    const paragraphs = extractParagraphs(shapeXml);
+    if (paragraphs.length > 0) {
+      shapes.push({ placeholder, paragraphs });
+    }
+  }
+  
+  return shapes;
+}
+
+/**
+ * Extract the non-empty paragraphs (<a:p>) of a text body
+ */
+function extractParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  const paragraphRegex = /<a:p(?:\s[^>]*)?>[\s\S]*?<\/a:p>/g;
+  let match;
+  
+  while ((match = paragraphRegex.exec(xml)) !== null) {
+    let text = '';
+    // Text runs, fields (e.g. dates) and soft line breaks, in order
+    const runRegex = /<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>|<a:br(?:\s[^>]*)?\/?>/g;
+    let run;
+    
+    while ((run = runRegex.exec(match[0])) !== null) {
+      text += run[0].startsWith('<a:br') ? '\n' : decodeXmlEntities(run[1]);
+    }
+    
+    const cleaned = text
+      .split('\n')
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n');
+    
+    if (cleaned) {
+      paragraphs.push(cleaned);
+    }
+  }
+  
+  return paragraphs;
+}
+
+/**
+ * Extract table rows as arrays of cell text
+ * Cells covered by a merge (hMerge/vMerge) are skipped so merged text appears once
+ */
+function extractTableRows(xml: string): string[][] {
+  const rows: string[][] = [];
+  const rowMatches = xml.match(/<a:tr(?:\s[^>]*)?>[\s\S]*?<\/a:tr>/g) || [];
+  
+  for (const rowXml of rowMatches) {
+    const cells = (rowXml.match(/<a:tc(?:\s[^>]*)?>[\s\S]*?<\/a:tc>/g) || [])
+      .filter((cellXml) => !/^<a:tc\s[^>]*(hMerge|vMerge)="(1|true)"/.test(cellXml))
+      .map((cellXml) => extractParagraphs(cellXml).join(' ').replace(/\n/g, ' '));
+    
+    if (cells.some(Boolean)) {
+      rows.push(cells);
+    }
+  }
+  
+  return rows;
+}
+
+/**
+ * Turn shapes into text: one line per paragraph, one "a | b | c" line per table row
+ */
+function renderShapes(shapes: SlideShape[]): string {
+  return shapes
+    .map((shape) =>
+      shape.rows
+        ? shape.rows.map((row) => row.join(' | ')).join('\n')
+        : shape.paragraphs.join('\n')
+    )
+    .join('\n');
+}
+
+/**
+ * Build the structured section for a slide
+ * Title placeholders become the section title, notes become 'notes' blocks
+ */
+function buildSlideSection(slide: SlideData): DocumentSection {
+  const titleShape = slide.shapes.find(
+    (shape) => shape.placeholder && TITLE_PLACEHOLDERS.includes(shape.placeholder)
+  );
+  const blocks: ContentBlock[] = [];
+  
+  for (const shape of slide.shapes) {
+    if (shape === titleShape) continue;
+    
+    if (shape.rows) {
+      blocks.push({
+        type: 'table',
+        text: shape.rows.map((row) => row.join(' | ')).join('\n'),
+        rows: shape.rows,
+      });
     } else {
-      // Append to current line
-      currentLine += (currentLine ? ' ' : '') + part;
+      // Body placeholders hold bullet lists; free text boxes and subtitles hold plain text
+      const type = shape.placeholder && BULLET_PLACEHOLDERS.includes(shape.placeholder)
+        ? 'bullet'
+        : 'paragraph';
+      for (const paragraph of shape.paragraphs) {
+        blocks.push({ type, text: paragraph });
+      }
     }
   }
   
-  // Don't forget the last line
-  if (currentLine) {
-    result += currentLine;
+  for (const text of slide.imageText) {
+    blocks.push({ type: 'paragraph', text });
+  }
+  
+  for (const shape of slide.notes) {
+    for (const paragraph of shape.paragraphs) {
+      blocks.push({ type: 'notes', text: paragraph });
+    }
   }
   
-  return result;
+  return {
+    title: titleShape ? titleShape.paragraphs.join(' ') : null,
+    blocks,
+    location: { kind: 'slide', number: slide.number },
+    ocr: slide.imageText.length > 0 || undefined,
+  };
 }
 
 /**
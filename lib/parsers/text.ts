@@ -0,0 +1,248 @@
+// =============================================
+// Plain Text & Markdown Parser
+// =============================================
+// Extracts text content from .txt and .md notes
+// Markdown syntax is stripped so only the readable text reaches the AI
+
+import { ParseResult } from './index';
+import { textToBlocks } from './document';
+import { DocumentSection } from '@/lib/types';
+
+// A line of output text, flagged when it came from a heading
+interface TextLine {
+  text: string;
+  isHeading: boolean;
+}
+
+/**
+ * Parse a plain text file
+ * Paragraphs are separated by blank lines; short ALL CAPS lines count as headings
+ */
+export async function parseText(input: File | Blob | Buffer): Promise<ParseResult> {
+  try {
+    const text = normalizeText(await readText(input));
+
+    if (!text) {
+      return {
+        success: false,
+        content: '',
+        error: 'No text content found in the text file',
+      };
+    }
+
+    const lines = text
+      .split('\n')
+      .map((line) => ({ text: line, isHeading: isPlainTextHeading(line) }));
+
+    return {
+      success: true,
+      content: text,
+      sections: buildSections(lines),
+      metadata: {
+        paragraphCount: countParagraphs(lines),
+        headingCount: lines.filter((line) => line.isHeading).length,
+      },
+    };
+  } catch (error) {
+    console.error('Error parsing text file:', error);
+    return {
+      success: false,
+      content: '',
+      error: `Failed to parse text file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Parse a Markdown file
+ * Headings are kept as their own lines, formatting marks are removed
+ */
+export async function parseMarkdown(input: File | Blob | Buffer): Promise<ParseResult> {
+  try {
+    const markdown = normalizeText(await readText(input));
+    const lines = stripMarkdown(markdown);
+
+    const headings = lines.filter((line) => line.isHeading);
+    const text = lines
+      .map((line) => line.text)
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    if (!text) {
+      return {
+        success: false,
+        content: '',
+        error: 'No text content found in the Markdown file',
+      };
+    }
+
+    return {
+      success: true,
+      content: text,
+      sections: buildSections(lines),
+      metadata: {
+        paragraphCount: countParagraphs(lines),
+        headingCount: headings.length,
+        title: headings[0]?.text,
+      },
+    };
+  } catch (error) {
+    console.error('Error parsing Markdown file:', error);
+    return {
+      success: false,
+      content: '',
+      error: `Failed to parse Markdown file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Read the input as UTF-8 text (File/Blob on the client, Buffer on the server)
+ */
+async function readText(input: File | Blob | Buffer): Promise<string> {
+  if (input instanceof Blob) {
+    return await input.text();
+  }
+  return input.toString('utf-8');
+}
+
+/**
+ * Normalize line endings and whitespace
+ */
+function normalizeText(text: string): string {
+  return text
+    // Remove the UTF-8 byte order mark if present
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Count runs of consecutive non-blank lines that are not headings
+ */
+function countParagraphs(lines: TextLine[]): number {
+  let count = 0;
+  let inParagraph = false;
+
+  for (const line of lines) {
+    if (line.isHeading || !line.text.trim()) {
+      inParagraph = false;
+    } else if (!inParagraph) {
+      inParagraph = true;
+      count++;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Group lines into sections, starting a new section at every heading
+ */
+function buildSections(lines: TextLine[]): DocumentSection[] {
+  const groups: { title: string | null; lines: string[] }[] = [];
+
+  for (const line of lines) {
+    if (line.isHeading) {
+      groups.push({ title: line.text.trim(), lines: [] });
+    } else if (groups.length === 0) {
+      groups.push({ title: null, lines: [line.text] });
+    } else {
+      groups[groups.length - 1].lines.push(line.text);
+    }
+  }
+
+  return groups.map((group, index) => ({
+    title: group.title,
+    blocks: textToBlocks(group.lines.join('\n')),
+    location: { kind: 'section', number: index + 1 },
+  }));
+}
+
+/**
+ * A short line with letters and no lowercase characters, e.g. "CHAPTER 2: SENSORY SYSTEMS"
+ */
+function isPlainTextHeading(line: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length > 0 &&
+    trimmed.length <= 80 &&
+    /[A-Z]/.test(trimmed) &&
+    !/[a-z]/.test(trimmed)
+  );
+}
+
+/**
+ * Convert Markdown into plain lines, remembering which ones were headings
+ */
+function stripMarkdown(markdown: string): TextLine[] {
+  const result: TextLine[] = [];
+  let inCodeBlock = false;
+
+  // Drop YAML front matter
+  const body = markdown.replace(/^---\n[\s\S]*?\n---\n/, '');
+
+  for (const rawLine of body.split('\n')) {
+    // Keep code block contents as-is, but drop the fences
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      result.push({ text: rawLine, isHeading: false });
+      continue;
+    }
+
+    // Horizontal rules and table separator rows carry no text
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(rawLine) || /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(rawLine)) {
+      continue;
+    }
+
+    // ATX headings: "## Title"
+    const heading = rawLine.match(/^\s*#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      if (result.length > 0) {
+        result.push({ text: '', isHeading: false });
+      }
+      result.push({ text: stripInlineMarkdown(heading[1]), isHeading: true });
+      continue;
+    }
+
+    let line = rawLine
+      // Blockquotes
+      .replace(/^\s*(>\s?)+/, '')
+      // Bullet lists
+      .replace(/^(\s*)[-*+]\s+(\[[ xX]\]\s+)?/, '$1• ')
+      // Table rows: "| a | b |" -> "a | b"
+      .replace(/^\s*\|(.*)\|\s*$/, '$1');
+
+    line = stripInlineMarkdown(line);
+    result.push({ text: line.trimEnd(), isHeading: false });
+  }
+
+  return result;
+}
+
+/**
+ * Remove inline formatting: links, images, emphasis, code and HTML tags
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    // Images: ![alt](url) -> alt
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    // Links: [text](url) -> text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    // Inline code
+    .replace(/`([^`]*)`/g, '$1')
+    // Bold and italics
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, '$1$2')
+    .replace(/(^|[^\w_])_(?!\s)(.+?)_(?!\w)/g, '$1$2')
+    // Strikethrough
+    .replace(/~~(.+?)~~/g, '$1')
+    // HTML tags
+    .replace(/<[^>]+>/g, '');
+}
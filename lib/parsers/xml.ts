@@ -0,0 +1,21 @@
+// =============================================
+// XML Helpers
+// =============================================
+// Small helpers shared by the Office (OOXML) parsers
+// We use regex scanning instead of a DOM parser so the same code runs
+// on the server and in the browser
+
+/**
+ * Decode the XML entities that appear inside text nodes
+ */
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    // &amp; must be last so "&amp;lt;" stays as "&lt;"
+    .replace(/&amp;/g, '&');
+}
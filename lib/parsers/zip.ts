@@ -0,0 +1,111 @@
+// =============================================
+// ZIP Bundle Parser
+// =============================================
+// Imports a whole course folder packed as a .zip archive
+// Every supported file inside is parsed on its own; the folder
+// structure is kept in each file's path (e.g. "Week 3/Lecture.pptx")
+
+import { parseFileBuffer, isSupportedFile, ParsedFile, ParseOptions } from './index';
+import { openArchive, ArchiveTooLargeError } from './archive';
+
+// Limit that keeps a huge archive from exhausting the server
+// (unpacked sizes are capped by openArchive)
+const MAX_ZIP_DOCUMENTS = 100;
+
+// A file in the archive that was not turned into a document
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+export interface ZipParseResult {
+  success: boolean;
+  documents: ParsedFile[]; // filename is the path inside the archive
+  skipped: SkippedEntry[];
+  error?: string;
+}
+
+/**
+ * Check if a file is a ZIP archive by its extension
+ */
+export function isZipFile(filename: string): boolean {
+  return filename.toLowerCase().endsWith('.zip');
+}
+
+/**
+ * Folder part of an archive path ("" for files at the top level)
+ */
+export function getFolderPath(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/**
+ * Parse every supported file in a ZIP archive
+ * Files are parsed one at a time to keep memory use flat
+ */
+export async function parseZipBuffer(buffer: Buffer, options: ParseOptions = {}): Promise<ZipParseResult> {
+  try {
+    const archive = await openArchive(new Uint8Array(buffer));
+
+    // Skip macOS metadata, hidden files and Office lock files
+    const paths = archive.paths
+      .filter((path) => !path.split('/').some((part) => part.startsWith('.') || part === '__MACOSX'))
+      .filter((path) => !path.split('/').pop()?.startsWith('~$'))
+      // Natural order so "Lecture 2" comes before "Lecture 10"
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    const documents: ParsedFile[] = [];
+    const skipped: SkippedEntry[] = [];
+
+    for (const path of paths) {
+      if (!isSupportedFile(path)) {
+        skipped.push({ path, reason: 'Unsupported file type' });
+        continue;
+      }
+      if (documents.length >= MAX_ZIP_DOCUMENTS) {
+        skipped.push({ path, reason: `Only the first ${MAX_ZIP_DOCUMENTS} files are imported` });
+        continue;
+      }
+
+      let data: Uint8Array | null;
+      try {
+        data = await archive.bytes(path);
+      } catch (error) {
+        if (!(error instanceof ArchiveTooLargeError)) throw error;
+        skipped.push({
+          path,
+          reason: error.limit === 'entry' ? 'File too large (over 50MB)' : 'Archive too large (over 200MB uncompressed)',
+        });
+        continue;
+      }
+      if (!data) continue;
+
+      const result = await parseFileBuffer(Buffer.from(data.buffer, data.byteOffset, data.length), path, options);
+      if (result.success && result.content.trim()) {
+        documents.push({ filename: path, result });
+      } else {
+        skipped.push({ path, reason: result.error || 'No text content found' });
+      }
+    }
+
+    if (documents.length === 0) {
+      return {
+        success: false,
+        documents,
+        skipped,
+        error: 'No supported files with text were found in the ZIP archive',
+      };
+    }
+
+    return { success: true, documents, skipped };
+  } catch (error) {
+    console.error('Error parsing ZIP:', error);
+    return {
+      success: false,
+      documents: [],
+      skipped: [],
+      error: `Failed to read ZIP archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+// =============================================
+// AI Provider Registry
+// =============================================
+// Picks which AI services generate questions, in order of preference
+// Set AI_PROVIDERS (e.g. "groq,gemini") to choose them; providers without
+// an API key are left out. When one is rate-limited, times out or returns
+// unreadable JSON, the next one in the list is tried
+// AI_PROVIDERS=mock uses the offline mock (lib/mock.ts) - no keys or network needed
+
+import { AIProvider, GeneratedQuestion, GenerationOptions, QuestionParseError } from '@/lib/ai';
+import { groqProvider } from '@/lib/groq';
+import { geminiProvider } from '@/lib/gemini';
+import { mockProvider } from '@/lib/mock';
+import { QuestionType } from '@/config/questions';
+
+// Every provider the app knows about, by id
+const PROVIDERS: Record<string, AIProvider> = {
+  groq: groqProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const DEFAULT_PROVIDER_ORDER = 'groq,gemini';
+
+// Why a provider call failed, when it is worth trying the next provider
+export type FailoverReason = 'quota' | 'timeout' | 'parse' | 'unavailable';
+
+export interface ProviderResult {
+  questions: GeneratedQuestion[];
+  provider: AIProvider;
+}
+
+/**
+ * Configured providers in the order set by AI_PROVIDERS
+ */
+export function getProviders(): AIProvider[] {
+  const ids = (process.env.AI_PROVIDERS || DEFAULT_PROVIDER_ORDER)
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = ids.filter((id) => !PROVIDERS[id]);
+  if (unknown.length > 0) {
+    console.warn(`Ignoring unknown AI providers: ${unknown.join(', ')}`);
+  }
+
+  return Array.from(new Set(ids))
+    .map((id) => PROVIDERS[id])
+    .filter((provider) => provider && provider.isConfigured);
+}
+
+/**
+ * Decide whether an error means "try another provider"
+ * Returns null for errors another provider would hit too (e.g. a bad request)
+ */
+export function classifyProviderError(error: unknown): FailoverReason | null {
+  if (error instanceof QuestionParseError) return 'parse';
+  if (!(error instanceof Error)) return null;
+
+  // Both SDKs put the HTTP status on the error
+  const status = (error as { status?: number }).status;
+  const message = error.message.toLowerCase();
+
+  if (status === 429 || /rate limit|quota|resource_exhausted|too many requests/.test(message)) {
+    return 'quota';
+  }
+  if (error.name.includes('Timeout') || error.name === 'AbortError' || /timed? ?out/.test(message)) {
+    return 'timeout';
+  }
+  if ((status !== undefined && status >= 500) || /overloaded|unavailable|connection error/.test(message)) {
+    return 'unavailable';
+  }
+  return null;
+}
+
+/**
+ * Generate questions with the first provider that succeeds
+ * @param exhausted - Ids of providers that hit their quota earlier in this
+ *   generation; they are skipped, and newly rate-limited ones are added
+ */
+export async function generateWithFailover(
+  content: string,
+  type: QuestionType,
+  count: number,
+  options: GenerationOptions,
+  exhausted: Set<string> = new Set()
+): Promise<ProviderResult> {
+  const providers = getProviders();
+  if (providers.length === 0) {
+    throw new Error('No AI provider is configured. Add GROQ_API_KEY or GEMINI_API_KEY to .env.local, or set AI_PROVIDERS=mock to work offline');
+  }
+
+  // If every provider is out of quota, still give the last one a try
+  const available = providers.filter((provider) => !exhausted.has(provider.id));
+  const candidates = available.length > 0 ? available : providers.slice(-1);
+
+  let lastError: unknown = null;
+  for (const [index, provider] of Array.from(candidates.entries())) {
+    try {
+      const questions = await provider.generateQuestions(content, type, count, options);
+      return { questions, provider };
+    } catch (error) {
+      lastError = error;
+      const reason = classifyProviderError(error);
+      if (!reason) break;
+
+      if (reason === 'quota') exhausted.add(provider.id);
+      const next = candidates[index + 1];
+      if (next) console.warn(`${provider.name} failed (${reason}), trying ${next.name}...`);
+    }
+  }
+
+  throw new Error(
+    `Failed to generate questions: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`
+  );
+}
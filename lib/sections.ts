@@ -0,0 +1,129 @@
+// =============================================
+// Content Sections
+// =============================================
+// Splits parsed content on its [Slide N] / [Page N] markers
+// so a quiz can be generated from part of a document
+// Multi-file uploads also carry a [File: name] line before each file
+// Used by the configure page and /api/generate
+
+export interface ContentSegment {
+  /** Selection key, e.g. "Slide 3" or "notes.pdf › Page 2" */
+  key: string;
+  /** 'file' is a whole file that has no slide/page markers (DOCX, TXT, MD) */
+  kind: 'slide' | 'page' | 'file';
+  number: number;
+  /** Source file, for multi-file content */
+  file?: string;
+  /** Segment text, including its slide/page marker line */
+  text: string;
+}
+
+// Marker lines written by the parsers and by mergeParseResults
+const MARKER_PATTERN = /^\[(?:(Slide|Page) (\d+)|File: (.+))\]$/gm;
+
+/**
+ * Split content into one segment per [Slide N] / [Page N] marker
+ * Returns an empty list for a single file without markers (DOCX, TXT, MD)
+ */
+export function splitContentSegments(content: string): ContentSegment[] {
+  const markers = Array.from(content.matchAll(MARKER_PATTERN));
+  const segments: ContentSegment[] = [];
+  let file: string | undefined;
+
+  markers.forEach((match, index) => {
+    const start = match.index ?? 0;
+    const next = markers[index + 1];
+    const end = next ? next.index ?? content.length : content.length;
+
+    if (match[3]) {
+      file = match[3];
+      // A file with no slide/page markers is selected as a whole
+      if (!next || next[3]) {
+        segments.push({
+          key: file,
+          kind: 'file',
+          number: 0,
+          file,
+          text: content.slice(start + match[0].length, end).trim(),
+        });
+      }
+      return;
+    }
+
+    const label = `${match[1]} ${match[2]}`;
+    segments.push({
+      key: file ? `${file} › ${label}` : label,
+      kind: match[1] === 'Slide' ? 'slide' : 'page',
+      number: parseInt(match[2], 10),
+      file,
+      text: content.slice(start, end).trim(),
+    });
+  });
+
+  return segments;
+}
+
+/**
+ * Keep only the selected segments, in document order
+ * Content without markers is returned unchanged
+ */
+export function selectContentSegments(content: string, keys: string[]): string {
+  const segments = splitContentSegments(content);
+  if (segments.length === 0) return content;
+
+  const selected = new Set(keys);
+  const parts: string[] = [];
+  let currentFile: string | undefined;
+
+  for (const segment of segments) {
+    if (!selected.has(segment.key)) continue;
+    // Repeat the file line so the model still knows where the text came from
+    if (segment.file && segment.file !== currentFile) {
+      currentFile = segment.file;
+      parts.push(`[File: ${segment.file}]\n${segment.text}`);
+    } else {
+      parts.push(segment.text);
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Plural label for a list of segments: "slides", "pages" or "sections"
+ */
+export function segmentUnit(segments: ContentSegment[]): string {
+  const kinds = new Set(segments.map((s) => s.kind));
+  if (kinds.size === 1 && kinds.has('slide')) return 'slides';
+  if (kinds.size === 1 && kinds.has('page')) return 'pages';
+  return 'sections';
+}
+
+/**
+ * Parse a range like "3-5, 8" into the matching segment numbers
+ * Numbers that are not in the document are ignored
+ */
+export function parseRangeInput(
+  input: string,
+  available: number[]
+): { numbers: number[]; error?: string } {
+  const ranges: [number, number][] = [];
+
+  for (const part of input.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:\s*[-–]\s*(\d+))?$/);
+    if (!match) {
+      return { numbers: [], error: `"${part}" is not a valid range. Use a format like 3-5, 8` };
+    }
+
+    const from = parseInt(match[1], 10);
+    const to = match[2] ? parseInt(match[2], 10) : from;
+    ranges.push([Math.min(from, to), Math.max(from, to)]);
+  }
+
+  // Check the available numbers against each range (a range can be huge)
+  const numbers = available.filter((n) => ranges.some(([from, to]) => from <= n && n <= to));
+  if (numbers.length === 0) {
+    return { numbers: [], error: 'No slides or pages match that range' };
+  }
+  return { numbers };
+}
@@ -4,6 +4,7 @@
 // Handles database and file storage connections
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { QuizCoverage, QuestionSourceLocation, AttemptEvent } from '@/lib/types';
 
 // Database types (matches our schema)
 export interface Quiz {
@@ -13,6 +14,13 @@ export interface Quiz {
   source_content: string;
   question_type: string;
   total_questions: number;
+  coverage: QuizCoverage | null;
+  ai_provider: string | null; // e.g. "groq", or "groq, gemini" after a failover
+  ai_model: string | null;
+  multi_select_scoring: string | null;
+  mode: string;
+  time_limit: number | null;
+  question_time_limit: number | null;
   created_at: string;
 }
 
@@ -23,7 +31,17 @@ export interface Question {
   question_text: string;
   correct_answer: string;
   options: string[] | null;
+  prompts: string[] | null;
+  accepted_answers: string[] | null;
   explanation: string | null;
+  source_file: string | null;
+  grounding_score: number | null;
+  grounding_passage: string | null;
+  source_location: QuestionSourceLocation | null;
+  difficulty: string | null;
+  cognitive_level: string | null;
+  case_group: string | null;
+  case_stem: string | null;
   order_num: number;
 }
 
@@ -34,6 +52,13 @@ export interface Attempt {
   total: number;
   answers: Record<string, string>;
   time_spent: number;
+  status: string;
+  current_index: number;
+  mode: string;
+  deadline: string | null;
+  question_deadline: string | null;
+  events: AttemptEvent[];
+  started_at: string;
   completed_at: string;
 }
 
@@ -188,8 +213,26 @@ export async function getQuestionsByQuizId(quizId: string): Promise<Question[]>
   return (data || []) as Question[];
 }
 
+// Questions of several quizzes in one query (for analytics)
+export async function getQuestionsByQuizIds(quizIds: string[]): Promise<Question[]> {
+  if (!isSupabaseConfigured || quizIds.length === 0) return [];
+
+  const client = getClient();
+  const { data, error } = await client
+    .from('questions')
+    .select('*')
+    .in('quiz_id', quizIds)
+    .order('order_num', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching questions:', error);
+    return [];
+  }
+  return (data || []) as Question[];
+}
+
 // Attempt functions
-export async function createAttempt(attempt: Omit<Attempt, 'id' | 'completed_at'>): Promise<Attempt | null> {
+export async function createAttempt(attempt: Omit<Attempt, 'id' | 'started_at' | 'completed_at'>): Promise<Attempt | null> {
   if (!isSupabaseConfigured) return null;
   
   const client = getClient();
@@ -214,6 +257,7 @@ export async function getAttemptsByQuizId(quizId: string): Promise<Attempt[]> {
     .from('attempts')
     .select('*')
     .eq('quiz_id', quizId)
+    .eq('status', 'submitted')
     .order('completed_at', { ascending: false });
   
   if (error) {
@@ -230,6 +274,7 @@ export async function getAllAttempts(): Promise<Attempt[]> {
   const { data, error } = await client
     .from('attempts')
     .select('*')
+    .eq('status', 'submitted')
     .order('completed_at', { ascending: false });
   
   if (error) {
@@ -256,6 +301,70 @@ export async function getAttemptById(id: string): Promise<Attempt | null> {
   return data as Attempt;
 }
 
+// Draft attempts: a quiz in progress, autosaved so it can be resumed
+// (left out of getAttemptsByQuizId and getAllAttempts until submitted)
+
+export async function getDraftAttempt(quizId: string): Promise<Attempt | null> {
+  if (!isSupabaseConfigured) return null;
+  
+  const client = getClient();
+  const { data, error } = await client
+    .from('attempts')
+    .select('*')
+    .eq('quiz_id', quizId)
+    .eq('status', 'draft')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  
+  if (error) {
+    console.error('Error fetching draft attempt:', error);
+    return null;
+  }
+  return data as Attempt | null;
+}
+
+export async function deleteDraftAttempts(quizId: string): Promise<boolean> {
+  if (!isSupabaseConfigured) return false;
+  
+  const client = getClient();
+  const { error } = await client
+    .from('attempts')
+    .delete()
+    .eq('quiz_id', quizId)
+    .eq('status', 'draft');
+  
+  if (error) {
+    console.error('Error deleting draft attempts:', error);
+    return false;
+  }
+  return true;
+}
+
+// Only changes the attempt while it is still a draft, so a late autosave
+// cannot touch a submitted attempt and an attempt cannot be submitted twice
+export async function updateDraftAttempt(
+  id: string,
+  fields: Partial<Omit<Attempt, 'id' | 'quiz_id' | 'started_at'>>
+): Promise<Attempt | null> {
+  if (!isSupabaseConfigured) return null;
+  
+  const client = getClient();
+  const { data, error } = await client
+    .from('attempts')
+    .update(fields as Record<string, unknown>)
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error updating draft attempt:', error);
+    return null;
+  }
+  return data as Attempt;
+}
+
 // File storage functions
 export async function uploadFile(file: File, bucket: string = 'uploads'): Promise<string | null> {
   if (!isSupabaseConfigured) return null;
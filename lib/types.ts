@@ -3,7 +3,7 @@
 // =============================================
 // Shared types used throughout the application
 
-import { QuestionType } from '@/config/questions';
+import { QuestionType, Difficulty, CognitiveLevel, CognitiveMix, MultiSelectScoring, QuizMode } from '@/config/questions';
 
 // =============================================
 // Quiz Types
@@ -16,17 +16,58 @@ export interface Quiz {
   source_content: string;
   question_type: QuestionType;
   total_questions: number;
+  coverage: QuizCoverage | null;
+  ai_provider: string | null; // e.g. "groq", or "groq, gemini" after a failover
+  ai_model: string | null;
+  multi_select_scoring: MultiSelectScoring | null; // Set on quizzes with select-all questions
+  mode: QuizMode;
+  time_limit: number | null; // Exam mode: seconds for the whole quiz
+  question_time_limit: number | null; // Exam mode timed per question: seconds for each
   created_at: string;
 }
 
+// How much of the source document a quiz's questions were drawn from
+export interface QuizCoverage {
+  percent: number; // Share of the source text (0-100)
+  coveredSections: number;
+  totalSections: number;
+  unit: string; // What the sections are: "slides", "pages", "sections" or "paragraphs"
+  chunkCount: number; // How many parts the source was split into for the AI
+}
+
+// What happened to generated questions that failed validation (see lib/validation.ts)
+export interface ValidationIssue {
+  question: string;
+  action: 'fixed' | 'repaired' | 'rejected'; // Fixed here, fixed by the AI, or dropped
+  reasons: string[];
+}
+
+export interface ValidationReport {
+  checked: number; // Questions the AI returned
+  fixed: number;
+  repaired: number;
+  rejected: number;
+  issues: ValidationIssue[];
+}
+
 export interface Question {
   id: string;
   quiz_id: string;
-  type: 'multiple_choice' | 'identification' | 'true_false';
+  type: 'multiple_choice' | 'identification' | 'true_false' | 'case_vignette' | 'matching' | 'ordering' | 'multi_select';
   question_text: string;
-  correct_answer: string;
+  correct_answer: string; // Matching/ordering/multi-select: a JSON list (see lib/grading.ts)
   options: string[] | null;
+  prompts: string[] | null; // Matching: the items to pair with the options
+  accepted_answers: string[] | null; // Identification: other accepted spellings and abbreviations
   explanation: string | null;
+  source_file: string | null; // Uploaded file the question came from
+  grounding_score: number | null; // 0-100: how well the answer is backed by the source
+  grounding_passage: string | null; // Source text that best supports the answer
+  source_location: QuestionSourceLocation | null;
+  difficulty: Difficulty | null; // Difficulty the quiz was generated at
+  cognitive_level: CognitiveLevel | null; // Bloom's level the question targets
+  case_group: string | null; // Case vignettes: shared by the questions of one case
+  case_stem: string | null; // Case vignettes: the client scenario
   order_num: number;
 }
 
@@ -34,17 +75,54 @@ export interface QuizWithQuestions extends Quiz {
   questions: Question[];
 }
 
+// Fields that give the answer away: only sent once an attempt is submitted
+export type AnswerKeyField =
+  | 'correct_answer'
+  | 'accepted_answers'
+  | 'explanation'
+  | 'grounding_score'
+  | 'grounding_passage'
+  | 'source_location';
+
+// A question as sent to the quiz page (GET /api/quiz/[id])
+export type TakingQuestion = Omit<Question, AnswerKeyField>;
+
+export interface QuizForTaking extends Quiz {
+  questions: TakingQuestion[];
+}
+
 // =============================================
 // Quiz Attempt Types
 // =============================================
 
+// Draft: in progress and autosaved; submitted: graded and counted in history
+export type AttemptStatus = 'draft' | 'submitted';
+
+// One step in an attempt's event log (see lib/activity.ts)
+// enter/leave: a question was opened or left
+// hide/show: the tab was hidden or shown again while on a question
+// answer: the answer to a question was set or changed
+export interface AttemptEvent {
+  type: 'enter' | 'leave' | 'hide' | 'show' | 'answer';
+  question_id: string;
+  at: number; // Seconds into the attempt
+  answer?: string;
+}
+
 export interface Attempt {
   id: string;
   quiz_id: string;
   score: number;
   total: number;
   answers: Record<string, string>;
-  time_spent: number;
+  time_spent: number; // Seconds spent answering (so far, for drafts)
+  status: AttemptStatus;
+  current_index: number; // Drafts: the question to resume at
+  mode: QuizMode; // Copied from the quiz, so exam attempts can be told apart
+  deadline: string | null; // Exam mode: answers after this are not accepted
+  question_deadline: string | null; // Timed per question: when the open question locks
+  events: AttemptEvent[]; // Time on each question, answer changes and revisits
+  started_at: string;
   completed_at: string;
 }
 
@@ -52,6 +130,51 @@ export interface AttemptWithQuiz extends Attempt {
   quiz: Quiz;
 }
 
+// =============================================
+// Document Model Types
+// =============================================
+// Structured parser output, kept alongside the flat content string
+
+// What a section corresponds to in the source file
+export type DocumentSectionKind = 'slide' | 'page' | 'section';
+
+export interface SourceLocation {
+  kind: DocumentSectionKind;
+  number: number; // Slide/page number, or 1-based section index for documents
+  file?: string; // Source file name (set on upload)
+}
+
+// Where a question's answer is in the uploaded material (see lib/grounding.ts)
+export interface QuestionSourceLocation extends SourceLocation {
+  text: string; // The slide/page text (or the paragraphs around the answer), shown in "See source"
+  start: number; // Character span of the supporting passage within text
+  end: number;
+}
+
+export interface ContentBlock {
+  type: 'paragraph' | 'bullet' | 'table' | 'notes';
+  text: string;
+  rows?: string[][]; // Table cells, for type 'table'
+}
+
+export interface DocumentSection {
+  title: string | null;
+  blocks: ContentBlock[];
+  location: SourceLocation;
+  ocr?: boolean; // Some or all of the text was read from images with OCR
+}
+
+// A section without its text, for listing sections (the text is in the content)
+export type SectionOutline = Omit<DocumentSection, 'blocks'>;
+
+// One parsed document in an upload (several for multi-file and ZIP uploads)
+export interface DocumentManifestEntry {
+  path: string; // File name, including folders for ZIP entries (e.g. "Week 3/Lecture.pptx")
+  folder: string; // Folder part of the path, "" at the top level
+  slideCount?: number;
+  pageCount?: number;
+}
+
 // =============================================
 // API Response Types
 // =============================================
@@ -64,7 +187,10 @@ export interface ApiResponse<T = unknown> {
 
 export interface UploadResponse {
   filename: string;
+  filenames?: string[];
+  manifest?: DocumentManifestEntry[];
   content: string;
+  sections?: DocumentSection[];
   slideCount?: number;
   pageCount?: number;
 }
@@ -104,6 +230,11 @@ export interface QuizResult {
 export interface QuizSettings {
   questionType: QuestionType;
   questionCount: number;
+  difficulty: Difficulty;
+  cognitiveMix: CognitiveMix;
+  multiSelectScoring: MultiSelectScoring;
+  quizMode: QuizMode;
+  timeLimit?: number; // Exam mode, in seconds
   shuffleQuestions: boolean;
   title?: string;
 }
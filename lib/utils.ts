@@ -51,6 +51,13 @@ export function formatPercentage(value: number, total: number): string {
   return `${percentage}%`;
 }
 
+/**
+ * Format a score that may include partial credit (e.g. 7 or 7.5)
+ */
+export function formatScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toFixed(1);
+}
+
 /**
  * Get score color based on percentage
  */
@@ -144,3 +151,27 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
     timeout = setTimeout(() => func(...args), wait);
   };
 }
+
+/**
+ * Map over items with an async function, running at most `limit` at a time
+ * Results keep the order of the input
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  // Each runner keeps taking the next item until none are left
+  const runner = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runner));
+  return results;
+}
@@ -0,0 +1,354 @@
+// =============================================
+// Question Validation
+// =============================================
+// Checks every generated question before it is saved, so students never
+// get a question that cannot be answered correctly
+// 1. Small slips are fixed here (e.g. the answer differs from its option only in case)
+// 2. Questions that are still invalid are sent back to the AI to repair
+// 3. Whatever cannot be repaired is dropped, with the reason in the report
+
+import { AIProvider, GeneratedQuestion, buildRepairPrompt, parseQuestionsFromResponse } from '@/lib/ai';
+import { QUESTION_TYPES, QuestionType, DIFFICULTY_LEVELS, COGNITIVE_LEVELS } from '@/config/questions';
+import { ValidationIssue } from '@/lib/types';
+import { decodeAnswerList, encodeAnswerList } from '@/lib/grading';
+
+// Repair calls allowed per AI response (the rest of the invalid questions are dropped)
+const MAX_REPAIRS = 3;
+
+// Identification answers are typed in, so they must be short
+const MAX_IDENTIFICATION_ANSWER_LENGTH = 80;
+
+// Pairs per matching question / items per ordering question
+const MIN_LIST_ITEMS = 3;
+const MAX_LIST_ITEMS = 8;
+
+// Select-all questions: options shown and how many of them are correct
+const MIN_SELECT_OPTIONS = 5;
+const MAX_SELECT_OPTIONS = 6;
+const MIN_SELECT_ANSWERS = 2;
+const MAX_SELECT_ANSWERS = 4;
+
+const QUESTION_TYPE_IDS: GeneratedQuestion['type'][] = [
+  'multiple_choice', 'identification', 'true_false', 'case_vignette', 'matching', 'ordering', 'multi_select',
+];
+const MC_OPTION_COUNT = QUESTION_TYPES.multiple_choice.optionCount || 4;
+
+export interface ValidationResult {
+  questions: GeneratedQuestion[];
+  issues: ValidationIssue[];
+}
+
+/**
+ * Validate questions, fixing or repairing what we can and dropping the rest
+ * @param content - The text the questions were generated from (sent with repair requests)
+ * @param provider - The provider that wrote the questions; asked to repair them
+ */
+export async function validateQuestions(
+  questions: GeneratedQuestion[],
+  type: QuestionType,
+  content: string,
+  provider: AIProvider
+): Promise<ValidationResult> {
+  const valid: GeneratedQuestion[] = [];
+  const issues: ValidationIssue[] = [];
+  let repairsLeft = MAX_REPAIRS;
+
+  for (const original of questions) {
+    const { question, fixes } = normalizeQuestion(original, type);
+    const problems = findProblems(question, type);
+
+    if (problems.length === 0) {
+      valid.push(question);
+      if (fixes.length > 0) {
+        issues.push({ question: question.question_text, action: 'fixed', reasons: fixes });
+      }
+      continue;
+    }
+
+    // Ask the AI to fix it
+    const canRepair = Boolean(provider.complete) && repairsLeft > 0;
+    let repaired: GeneratedQuestion | null = null;
+    let repairError = '';
+    if (canRepair) {
+      repairsLeft--;
+      try {
+        repaired = await repairQuestion(question, problems, type, content, provider);
+      } catch (error) {
+        repairError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    if (repaired) {
+      valid.push({
+        ...repaired,
+        source_file: repaired.source_file || question.source_file,
+        case_stem: repaired.case_stem || question.case_stem,
+        case_group: question.case_group, // Stay linked to the rest of the case
+      });
+      issues.push({ question: question.question_text || '(empty question)', action: 'repaired', reasons: problems });
+      continue;
+    }
+
+    let reason = 'Repair did not fix every problem';
+    if (!provider.complete) reason = `${provider.name} cannot repair questions`;
+    else if (!canRepair) reason = 'Too many invalid questions to repair';
+    else if (repairError) reason = `Repair failed: ${repairError}`;
+
+    issues.push({
+      question: question.question_text || '(empty question)',
+      action: 'rejected',
+      reasons: [...problems, reason],
+    });
+  }
+
+  return { questions: valid, issues };
+}
+
+/**
+ * Send one invalid question back to the AI
+ * Returns the repaired question, or null if the reply is still invalid
+ */
+async function repairQuestion(
+  question: GeneratedQuestion,
+  problems: string[],
+  type: QuestionType,
+  content: string,
+  provider: AIProvider
+): Promise<GeneratedQuestion | null> {
+  const reply = await provider.complete!(buildRepairPrompt(content, question, problems));
+  const [candidate] = parseQuestionsFromResponse(reply, type);
+  if (!candidate) return null;
+
+  const { question: repaired } = normalizeQuestion(candidate, type);
+  return findProblems(repaired, type).length === 0 ? repaired : null;
+}
+
+/**
+ * Fix small slips that do not change what the question asks
+ * Returns the fixed question and a note for every fix made
+ */
+export function normalizeQuestion(
+  original: GeneratedQuestion,
+  type: QuestionType
+): { question: GeneratedQuestion; fixes: string[] } {
+  const fixes: string[] = [];
+  const question: GeneratedQuestion = {
+    ...original,
+    question_text: original.question_text.trim(),
+    correct_answer: original.correct_answer.trim(),
+    options: original.options?.map((option) => option.trim()),
+    prompts: original.prompts?.map((prompt) => prompt.trim()),
+    explanation: original.explanation?.trim() || undefined,
+    case_stem: original.case_stem?.trim() || undefined,
+    // Labels outside the known levels are dropped (filled in later from the request)
+    difficulty: original.difficulty && original.difficulty in DIFFICULTY_LEVELS ? original.difficulty : undefined,
+    cognitive_level: original.cognitive_level && original.cognitive_level in COGNITIVE_LEVELS
+      ? original.cognitive_level
+      : undefined,
+  };
+
+  // A single-type quiz only has that type; an unknown type is guessed from the options
+  if (type !== 'mixed' && question.type !== type) {
+    fixes.push(`Type "${question.type}" changed to "${type}"`);
+    question.type = type;
+  } else if (!QUESTION_TYPE_IDS.includes(question.type)) {
+    const guessed = guessType(question);
+    fixes.push(`Unknown type "${question.type}" changed to "${guessed}"`);
+    question.type = guessed;
+  }
+
+  if (question.type === 'true_false') {
+    const answer = question.correct_answer.toLowerCase();
+    if ((answer === 'true' || answer === 'false') && question.correct_answer !== capitalize(answer)) {
+      question.correct_answer = capitalize(answer);
+      fixes.push('Answer capitalized as True/False');
+    }
+    if (question.options?.join() !== 'True,False') {
+      question.options = ['True', 'False'];
+    }
+  }
+
+  if (question.type === 'identification' && question.options?.length) {
+    question.options = undefined;
+    fixes.push('Options removed from identification question');
+  }
+
+  // Alternate answers: only identification is typed in; blanks, repeats
+  // and copies of the correct answer are dropped
+  if (question.type === 'identification' && question.accepted_answers) {
+    const seen = new Set([question.correct_answer.toLowerCase()]);
+    question.accepted_answers = question.accepted_answers
+      .map((answer) => answer.trim())
+      .filter((answer) => {
+        const key = answer.toLowerCase();
+        if (!answer || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  } else {
+    question.accepted_answers = undefined;
+  }
+
+  if ((hasChoices(question) || question.type === 'multi_select') && question.options) {
+    let options = question.options.filter(Boolean);
+
+    // "A. Answer" / "(B) Answer" labels - the app adds its own letters
+    if (options.length > 1 && options.every((option) => /^\(?[A-Ha-h][.)]\s+/.test(option))) {
+      options = options.map((option) => option.replace(/^\(?[A-Ha-h][.)]\s+/, ''));
+      fixes.push('Letter labels removed from options');
+    }
+
+    // The same option twice
+    const unique = options.filter(
+      (option, index) => options.findIndex((other) => sameText(other, option)) === index
+    );
+    if (unique.length < options.length) {
+      fixes.push('Duplicate options removed');
+      options = unique;
+    }
+    question.options = options;
+
+    // The answer given as a letter ("B") or with different case/spacing/label
+    if (question.type === 'multi_select') {
+      const answers = decodeAnswerList(question.correct_answer);
+      const matched = answers.map((answer) => matchOption(answer, options) || answer);
+      if (matched.some((answer, index) => answer !== answers[index])) {
+        question.correct_answer = encodeAnswerList(matched);
+        fixes.push('Answers matched to their options');
+      }
+    } else {
+      const match = matchOption(question.correct_answer, options);
+      if (match && match !== question.correct_answer) {
+        question.correct_answer = match;
+        fixes.push('Answer matched to its option');
+      }
+    }
+  }
+
+  return { question, fixes };
+}
+
+/**
+ * Everything that still makes a question unusable ([] when it is valid)
+ */
+export function findProblems(question: GeneratedQuestion, type: QuestionType): string[] {
+  const problems: string[] = [];
+
+  if (!question.question_text) problems.push('Question text is missing');
+  if (!question.correct_answer) problems.push('Correct answer is missing');
+  if (!QUESTION_TYPE_IDS.includes(question.type)) problems.push(`Unknown question type "${question.type}"`);
+  if (type !== 'mixed' && question.type !== type) problems.push(`Expected a ${type} question`);
+
+  if (hasChoices(question)) {
+    const options = question.options || [];
+    if (options.length !== MC_OPTION_COUNT) {
+      problems.push(`Has ${options.length} options instead of ${MC_OPTION_COUNT}`);
+    }
+    if (question.correct_answer && !options.includes(question.correct_answer)) {
+      problems.push('Correct answer is not one of the options');
+    }
+  }
+
+  if (question.type === 'true_false' && !['True', 'False'].includes(question.correct_answer)) {
+    problems.push('Answer must be True or False');
+  }
+
+  if (question.type === 'matching' || question.type === 'ordering') {
+    problems.push(...findListProblems(question));
+  }
+
+  if (question.type === 'multi_select') {
+    const options = question.options || [];
+    const answers = decodeAnswerList(question.correct_answer);
+    if (options.length < MIN_SELECT_OPTIONS || options.length > MAX_SELECT_OPTIONS) {
+      problems.push(`Has ${options.length} options instead of ${MIN_SELECT_OPTIONS}-${MAX_SELECT_OPTIONS}`);
+    }
+    if (answers.length < MIN_SELECT_ANSWERS || answers.length > MAX_SELECT_ANSWERS) {
+      problems.push(`Has ${answers.length} correct answers instead of ${MIN_SELECT_ANSWERS}-${MAX_SELECT_ANSWERS}`);
+    }
+    if (answers.some((answer) => !options.includes(answer))) {
+      problems.push('A correct answer is not one of the options');
+    }
+    if (new Set(answers).size < answers.length) {
+      problems.push('The same correct answer is listed twice');
+    }
+  }
+
+  if (question.type === 'case_vignette' && !question.case_stem?.trim()) {
+    problems.push('Case scenario is missing');
+  }
+
+  if (question.type === 'identification' && question.correct_answer.length > MAX_IDENTIFICATION_ANSWER_LENGTH) {
+    problems.push('Answer is too long to type in');
+  }
+
+  return problems;
+}
+
+/**
+ * Matching: each prompt has one match among the options
+ * Ordering: the answer is the options in some order
+ */
+function findListProblems(question: GeneratedQuestion): string[] {
+  const problems: string[] = [];
+  const options = question.options || [];
+  const answer = decodeAnswerList(question.correct_answer);
+  const lowered = (items: string[]) => items.map((item) => item.toLowerCase());
+
+  if (answer.length < MIN_LIST_ITEMS || answer.length > MAX_LIST_ITEMS) {
+    problems.push(`Has ${answer.length} items instead of ${MIN_LIST_ITEMS}-${MAX_LIST_ITEMS}`);
+  }
+  if (answer.some((item) => !item) || options.some((option) => !option)) {
+    problems.push('Has empty items');
+  }
+  if (new Set(lowered(options)).size < options.length) {
+    problems.push('Has the same item twice');
+  }
+  if (lowered(answer).sort().join('\n') !== lowered(options).sort().join('\n')) {
+    problems.push('Correct answer does not use every option exactly once');
+  }
+
+  if (question.type === 'matching') {
+    const prompts = question.prompts || [];
+    if (prompts.length !== answer.length) {
+      problems.push(`Has ${prompts.length} items to match but ${answer.length} matches`);
+    }
+    if (new Set(lowered(prompts)).size < prompts.length) {
+      problems.push('Has the same item to match twice');
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * The option an answer refers to: given as a letter ("B"), or with
+ * different case, spacing or a letter label
+ */
+function matchOption(answer: string, options: string[]): string | undefined {
+  if (options.includes(answer)) return answer;
+  const letter = answer.match(/^\(?(?:option\s+)?([A-Ha-h])[.)]?$/i);
+  const byLetter = letter ? options[letter[1].toUpperCase().charCodeAt(0) - 65] : undefined;
+  const withoutLabel = answer.replace(/^\(?[A-Ha-h][.)]\s+/, '');
+  return byLetter || options.find((option) => sameText(option, withoutLabel));
+}
+
+// Case vignette questions are answered like multiple choice
+function hasChoices(question: GeneratedQuestion): boolean {
+  return question.type === 'multiple_choice' || question.type === 'case_vignette';
+}
+
+function guessType(question: GeneratedQuestion): GeneratedQuestion['type'] {
+  const options = question.options || [];
+  if (question.prompts?.length) return 'matching';
+  if (options.length === 2 && options.every((option) => /^(true|false)$/i.test(option))) return 'true_false';
+  return options.length > 0 ? 'multiple_choice' : 'identification';
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.replace(/\s+/g, ' ').trim().toLowerCase() === b.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
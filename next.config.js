@@ -2,7 +2,8 @@
 const nextConfig = {
   // Enable experimental features for better performance
   experimental: {
-    serverComponentsExternalPackages: ['pdf-parse'],
+    // Loaded from node_modules at runtime (native/WASM code and bundled data files)
+    serverComponentsExternalPackages: ['pdf-parse', 'pdfjs-dist', 'tesseract.js', '@napi-rs/canvas'],
     // Allow larger file uploads (50MB)
     serverActions: {
       bodySizeLimit: '50mb',
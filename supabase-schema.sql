@@ -16,6 +16,13 @@ CREATE TABLE IF NOT EXISTS quizzes (
   source_content TEXT NOT NULL,
   question_type TEXT NOT NULL,
   total_questions INTEGER NOT NULL DEFAULT 0,
+  coverage JSONB DEFAULT NULL,
+  ai_provider TEXT DEFAULT NULL,
+  ai_model TEXT DEFAULT NULL,
+  multi_select_scoring TEXT DEFAULT NULL,
+  mode TEXT NOT NULL DEFAULT 'practice',
+  time_limit INTEGER DEFAULT NULL,
+  question_time_limit INTEGER DEFAULT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -35,7 +42,17 @@ CREATE TABLE IF NOT EXISTS questions (
   question_text TEXT NOT NULL,
   correct_answer TEXT NOT NULL,
   options JSONB DEFAULT NULL,
+  prompts JSONB DEFAULT NULL,
+  accepted_answers JSONB DEFAULT NULL,
   explanation TEXT DEFAULT NULL,
+  source_file TEXT DEFAULT NULL,
+  grounding_score INTEGER DEFAULT NULL,
+  grounding_passage TEXT DEFAULT NULL,
+  source_location JSONB DEFAULT NULL,
+  difficulty TEXT DEFAULT NULL,
+  cognitive_level TEXT DEFAULT NULL,
+  case_group TEXT DEFAULT NULL,
+  case_stem TEXT DEFAULT NULL,
   order_num INTEGER NOT NULL DEFAULT 0
 );
 
@@ -51,10 +68,17 @@ CREATE INDEX IF NOT EXISTS idx_questions_quiz_id ON questions(quiz_id);
 CREATE TABLE IF NOT EXISTS attempts (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
-  score INTEGER NOT NULL DEFAULT 0,
+  score NUMERIC NOT NULL DEFAULT 0,
   total INTEGER NOT NULL DEFAULT 0,
   answers JSONB NOT NULL DEFAULT '{}',
   time_spent INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'submitted',
+  current_index INTEGER NOT NULL DEFAULT 0,
+  mode TEXT NOT NULL DEFAULT 'practice',
+  deadline TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  question_deadline TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  events JSONB NOT NULL DEFAULT '[]',
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   completed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -135,6 +159,72 @@ ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY;
 ALTER TABLE study_notes ENABLE ROW LEVEL SECURITY;
 
 
+-- =============================================
+-- 7. UPGRADING AN EXISTING DATABASE
+-- =============================================
+-- Columns added after the first release
+-- Safe to run more than once
+
+-- Which uploaded file each question came from (multi-file quizzes)
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS source_file TEXT DEFAULT NULL;
+
+-- How well each answer is backed by the uploaded material
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS grounding_score INTEGER DEFAULT NULL;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS grounding_passage TEXT DEFAULT NULL;
+
+-- Where each answer is in the material (file, slide/page, text span)
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS source_location JSONB DEFAULT NULL;
+
+-- Difficulty and Bloom's level (remember/understand/apply/analyze) of each question
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS difficulty TEXT DEFAULT NULL;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS cognitive_level TEXT DEFAULT NULL;
+
+-- Case vignettes: linked questions share a case_group and the scenario text
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS case_group TEXT DEFAULT NULL;
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS case_stem TEXT DEFAULT NULL;
+
+-- Matching questions: the items to pair with the options
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS prompts JSONB DEFAULT NULL;
+
+-- Identification questions: other accepted ways to write the answer
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS accepted_answers JSONB DEFAULT NULL;
+
+-- Draft attempts: autosaved while a quiz is in progress, resumed after a refresh
+-- (status 'draft' until submitted; existing attempts count as submitted)
+ALTER TABLE attempts ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'submitted';
+ALTER TABLE attempts ADD COLUMN IF NOT EXISTS current_index INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE attempts ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Exam mode: attempts are tagged practice or exam; exams have a server-side deadline
+ALTER TABLE attempts ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'practice';
+ALTER TABLE attempts ADD COLUMN IF NOT EXISTS deadline TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+-- Event log of each attempt: time on each question, answer changes and revisits
+ALTER TABLE attempts ADD COLUMN IF NOT EXISTS events JSONB NOT NULL DEFAULT '[]';
+
+-- Matching and ordering questions earn partial credit, so scores can be fractional
+ALTER TABLE attempts ALTER COLUMN score TYPE NUMERIC;
+
+-- How much of the source document each quiz covers
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS coverage JSONB DEFAULT NULL;
+
+-- Which AI provider and model generated each quiz
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS ai_provider TEXT DEFAULT NULL;
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS ai_model TEXT DEFAULT NULL;
+
+-- How "select all that apply" questions are scored (all_or_nothing or partial)
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS multi_select_scoring TEXT DEFAULT NULL;
+
+-- Practice or exam, and the exam's time limit in seconds
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'practice';
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS time_limit INTEGER DEFAULT NULL;
+
+-- Exams timed per question: each question's time limit in seconds, and when
+-- an attempt's open question locks
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS question_time_limit INTEGER DEFAULT NULL;
+ALTER TABLE attempts ADD COLUMN IF NOT EXISTS question_deadline TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+
 -- =============================================
 -- DONE! Your database is ready.
 -- =============================================
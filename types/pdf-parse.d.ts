@@ -23,11 +23,24 @@ declare module 'pdf-parse' {
   }
 
   interface PDFOptions {
-    pagerender?: (pageData: unknown) => string;
+    pagerender?: (pageData: pdfParse.PDFPageData) => string | Promise<string>;
     max?: number;
     version?: string;
   }
 
+  namespace pdfParse {
+    // The parts of pdf.js's PDFPageProxy that a custom pagerender uses
+    interface PDFPageData {
+      pageIndex: number;
+      getTextContent(options?: {
+        normalizeWhitespace?: boolean;
+        disableCombineTextItems?: boolean;
+      }): Promise<{
+        items: { str: string; transform: number[] }[];
+      }>;
+    }
+  }
+
   function pdfParse(
     dataBuffer: Buffer | Uint8Array,
     options?: PDFOptions